@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { getLanguagePack, isTargetLanguage } from '../src/languages';
+import { TargetLanguage } from '../src/types';
+
+// Vercel rejects request bodies over 4.5 MB, about a minute of compressed speech fits easily
+const MAX_AUDIO_BASE64_LENGTH = 4_000_000;
+
+const pronunciationSchema = z.object({
+  transcript: z.string().describe('Exactly what the student said, without correcting grammar or word choice'),
+  score: z.number().int().min(1).max(5).describe('Overall pronunciation from 1 (hard to understand) to 5 (native-like)'),
+  summary: z.string().describe('One or two sentences of pronunciation feedback'),
+  issues: z.array(z.object({
+    word: z.string().describe('The mispronounced word, as transcribed'),
+    issue: z.string().describe('What sounded wrong'),
+    tip: z.string().describe('How to pronounce it better'),
+  })).describe('Mispronounced words, empty if there were none'),
+});
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const uid = await authorizeRequest(req, res, 'assess-pronunciation');
+    if (!uid) return;
+
+    const { question, audio, mimeType, language }: {
+      question: string;
+      audio: string;
+      mimeType: string;
+      language?: TargetLanguage;
+    } = req.body;
+
+    if (!question || !audio || !mimeType) {
+      return res.status(400).json({ error: 'Missing question, audio or mimeType' });
+    }
+
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
+
+    if (!mimeType.startsWith('audio/')) {
+      return res.status(400).json({ error: 'Unsupported audio format' });
+    }
+
+    if (audio.length > MAX_AUDIO_BASE64_LENGTH) {
+      return res.status(413).json({ error: 'Recording is too long' });
+    }
+
+    const prompt = PROMPTS.assessPronunciation.render({ pack, question });
+    const generation = getGenerationInfo(PROMPTS.assessPronunciation);
+
+    const result = await getLLMProvider().generateJson({
+      model: generation.model,
+      prompt,
+      // Drop codec parameters like ";codecs=opus"
+      audio: { data: audio, mimeType: mimeType.split(';')[0] },
+      schema: pronunciationSchema,
+    });
+
+    return res.status(200).json({
+      transcript: result.transcript.trim(),
+      pronunciation: {
+        score: result.score,
+        summary: result.summary,
+        issues: result.issues,
+        generation,
+      },
+    });
+  } catch (error) {
+    console.error('Error assessing pronunciation:', error);
+    return res.status(500).json({ error: 'Failed to assess pronunciation' });
+  }
+}
@@ -1,9 +1,11 @@
-import { GoogleGenAI } from '@google/genai';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const ai = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_GENAI_API_KEY || '',
-});
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { SupportLanguageSettings, TargetLanguage } from '../src/types';
+import { sendTextAsEventStream, streamTextResponse } from '../server/sse';
+import { getLanguagePack, isSupportLanguageSettings, isTargetLanguage } from '../src/languages';
+import { CacheKeyParts, getCachedResponse, setCachedResponse } from '../server/response-cache';
 
 export default async function handler(
   req: VercelRequest,
@@ -14,30 +16,67 @@ export default async function handler(
   }
 
   try {
-    const { question, level }: { question: string; level: string } = req.body;
+    const uid = await authorizeRequest(req, res, 'explain-question');
+    if (!uid) return;
+
+    const { question, level, language, support, stream }: {
+      question: string;
+      level: string;
+      language?: TargetLanguage;
+      support?: SupportLanguageSettings;
+      stream?: boolean;
+    } = req.body;
 
     if (!question || !level) {
       return res.status(400).json({ error: 'Missing question or level' });
     }
 
-    const prompt = `Explain this Dutch language question to a person with level ${level}. If possible, do it in Dutch. If their level is too low to explain this question in Dutch, use English instead.
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
 
-Question: ${question}
+    if (support !== undefined && !isSupportLanguageSettings(support)) {
+      return res.status(400).json({ error: 'Unsupported support language' });
+    }
 
-Provide a clear explanation that helps them understand what is being asked.`;
+    const prompt = PROMPTS.explainQuestion.render({ pack, question, level, support });
+    const generation = getGenerationInfo(PROMPTS.explainQuestion);
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+    const cacheKey: CacheKeyParts = { endpoint: 'explain-question', question, level, language: pack.code, support, generation };
 
-    if (!response.text) {
-      throw new Error('No response text from AI');
+    const cached = await getCachedResponse(cacheKey);
+    if (cached) {
+      if (stream) {
+        sendTextAsEventStream(res, cached, { generation });
+        return;
+      }
+      return res.status(200).json({ explanation: cached, generation });
     }
 
-    const explanation = response.text.trim();
+    // Streaming variant: send the text as server-sent events while it is generated
+    if (stream) {
+      const streamed = await streamTextResponse(
+        res,
+        getLLMProvider().streamText({ model: generation.model, prompt }),
+        'Failed to explain question',
+        { generation }
+      );
+      if (streamed) {
+        await setCachedResponse(cacheKey, streamed);
+      }
+      return;
+    }
+
+    const text = await getLLMProvider().generateText({
+      model: generation.model,
+      prompt,
+    });
+
+    const explanation = text.trim();
+    await setCachedResponse(cacheKey, explanation);
 
-    return res.status(200).json({ explanation });
+    return res.status(200).json({ explanation, generation });
   } catch (error) {
     console.error('Error explaining question:', error);
     return res.status(500).json({ error: 'Failed to explain question' });
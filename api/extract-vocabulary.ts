@@ -0,0 +1,80 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { PARTS_OF_SPEECH, getVocabularyEntryId } from '../src/services/vocabulary';
+import { ExtractedWord, TargetLanguage } from '../src/types';
+import { getLanguagePack, isTargetLanguage } from '../src/languages';
+
+const vocabularySchema = z.object({
+  words: z.array(z.object({
+    lemma: z.string().describe('Dictionary form of the word: infinitive for verbs, singular for nouns, base form for adjectives'),
+    article: z.string().nullable().describe('Definite article for nouns, null for other words'),
+    plural: z.string().nullable().describe('Plural for nouns, null for other words'),
+    partOfSpeech: z.enum(PARTS_OF_SPEECH).describe('Part of speech; fixed expressions are "phrase"'),
+    translation: z.string().describe('Short English translation'),
+  })).describe('Vocabulary found in the texts, each lemma once'),
+});
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const uid = await authorizeRequest(req, res, 'extract-vocabulary');
+    if (!uid) return;
+
+    const { question, answer, context, corrections, language }: {
+      question: string;
+      answer?: string;
+      context?: string;
+      corrections?: string[];
+      language?: TargetLanguage;
+    } = req.body;
+
+    if (!question) {
+      return res.status(400).json({ error: 'Missing question' });
+    }
+
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
+
+    const prompt = PROMPTS.extractVocabulary.render({ pack, question, answer, context, corrections });
+
+    const result = await getLLMProvider().generateJson({
+      model: getGenerationInfo(PROMPTS.extractVocabulary).model,
+      prompt,
+      schema: vocabularySchema,
+    });
+
+    // Models sometimes repeat a word, keep the first one
+    const seen = new Set<string>();
+    const words: ExtractedWord[] = [];
+    for (const word of result.words) {
+      const lemma = word.lemma.trim();
+      const id = getVocabularyEntryId(lemma, word.partOfSpeech);
+      if (!lemma || seen.has(id)) continue;
+      seen.add(id);
+      words.push({
+        lemma,
+        // Drop articles the language doesn't have, e.g. an indefinite one
+        ...(word.article && pack.articles.includes(word.article.toLowerCase()) ? { article: word.article.toLowerCase() } : {}),
+        ...(word.plural ? { plural: word.plural } : {}),
+        partOfSpeech: word.partOfSpeech,
+        translation: word.translation,
+      });
+    }
+
+    return res.status(200).json({ words });
+  } catch (error) {
+    console.error('Error extracting vocabulary:', error);
+    return res.status(500).json({ error: 'Failed to extract vocabulary' });
+  }
+}
@@ -1,9 +1,11 @@
-import { GoogleGenAI } from '@google/genai';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const ai = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_GENAI_API_KEY || '',
-});
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { SupportLanguageSettings, TargetLanguage } from '../src/types';
+import { sendTextAsEventStream, streamTextResponse } from '../server/sse';
+import { getLanguagePack, isSupportLanguageSettings, isTargetLanguage } from '../src/languages';
+import { CacheKeyParts, getCachedResponse, setCachedResponse } from '../server/response-cache';
 
 export default async function handler(
   req: VercelRequest,
@@ -14,42 +16,75 @@ export default async function handler(
   }
 
   try {
-    const { question, level }: { question: string; level: string } = req.body;
+    const uid = await authorizeRequest(req, res, 'generate-context');
+    if (!uid) return;
+
+    const { question, level, language, support, stream }: {
+      question: string;
+      level: string;
+      language?: TargetLanguage;
+      support?: SupportLanguageSettings;
+      stream?: boolean;
+    } = req.body;
 
     if (!question || !level) {
       return res.status(400).json({ error: 'Missing question or level' });
     }
 
-    const prompt = `You are a Dutch language teacher. Generate a short conversation (3-5 exchanges) in Dutch that leads up to asking this question: "${question}"
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
 
-The conversation should:
-- Be appropriate for ${level} level
-- Be natural and realistic
-- End with the question being asked
-- NOT include the answer to the question
+    if (support !== undefined && !isSupportLanguageSettings(support)) {
+      return res.status(400).json({ error: 'Unsupported support language' });
+    }
 
-Format the conversation as following markdown:
-Person A: [dialogue]
+    const prompt = PROMPTS.generateContext.render({ pack, question, level, support });
+    const generation = getGenerationInfo(PROMPTS.generateContext);
 
-Person B: [dialogue]
+    // The conversation itself is always in the target language, only the translation depends on the support language
+    const cacheKey: CacheKeyParts = {
+      endpoint: 'generate-context',
+      question,
+      level,
+      language: pack.code,
+      support: support?.showBoth ? support : undefined,
+      generation,
+    };
 
-Person A: [dialogue]
-etc.
+    const cached = await getCachedResponse(cacheKey);
+    if (cached) {
+      if (stream) {
+        sendTextAsEventStream(res, cached, { generation });
+        return;
+      }
+      return res.status(200).json({ conversation: cached, generation });
+    }
 
-Make it feel like a natural conversation that would lead to asking this question.`;
+    // Streaming variant: send the text as server-sent events while it is generated
+    if (stream) {
+      const streamed = await streamTextResponse(
+        res,
+        getLLMProvider().streamText({ model: generation.model, prompt }),
+        'Failed to generate context',
+        { generation }
+      );
+      if (streamed) {
+        await setCachedResponse(cacheKey, streamed);
+      }
+      return;
+    }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
+    const text = await getLLMProvider().generateText({
+      model: generation.model,
+      prompt,
     });
 
-    if (!response.text) {
-      throw new Error('No response text from AI');
-    }
-
-    const conversation = response.text.trim();
+    const conversation = text.trim();
+    await setCachedResponse(cacheKey, conversation);
 
-    return res.status(200).json({ conversation });
+    return res.status(200).json({ conversation, generation });
   } catch (error) {
     console.error('Error generating context:', error);
     return res.status(500).json({ error: 'Failed to generate context' });
@@ -1,11 +1,106 @@
-import { GoogleGenAI } from '@google/genai';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { Question } from '../src/types';
+import { z } from 'zod';
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { Exchange, Exercise, LearnerProfile, PracticeTheme, QuestionKind, TargetLanguage } from '../src/types';
+import { QUESTION_KINDS, getClozeSentence } from '../src/services/exercises';
+import { RECENT_EXCHANGES, isExchangeList, isLearnerProfile } from '../src/services/learnerProfile';
+import { getGrammarFocus, isPracticeTheme } from '../src/services/practice';
+import { LanguagePack, getLanguagePack, isTargetLanguage } from '../src/languages';
 
-const ai = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_GENAI_API_KEY || '',
+const multipleChoiceSchema = z.object({
+  question: z.string().describe('The question in the language being learned'),
+  options: z.array(z.string()).min(3).max(4).describe('Answer options in the language being learned, exactly one of them correct'),
+  correctIndex: z.number().int().min(0).describe('Zero-based index of the correct option'),
 });
 
+const clozeSchema = z.object({
+  before: z.string().describe('The part of the sentence before the missing word'),
+  answer: z.string().describe('The missing word'),
+  after: z.string().describe('The part of the sentence after the missing word, including final punctuation'),
+  hint: z.string().nullable().describe('Base form of the missing word if it is inflected, e.g. the infinitive, otherwise null'),
+});
+
+const translationSchema = z.object({
+  english: z.string().describe('An English sentence to translate'),
+  translation: z.string().describe('A correct, natural translation into the language being learned'),
+});
+
+const reorderSchema = z.object({
+  sentence: z.string().describe('A correct sentence of 4 to 10 words in the language being learned'),
+});
+
+function shuffle<T>(items: T[]): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Words without final punctuation, shuffled until they are out of order
+function shuffleWords(sentence: string): string[] {
+  const words = sentence.replace(/[.!?]+$/, '').split(/\s+/).filter(Boolean);
+  if (new Set(words).size < 2) return words;
+
+  let shuffled = shuffle(words);
+  while (shuffled.join(' ') === words.join(' ')) {
+    shuffled = shuffle(words);
+  }
+  return shuffled;
+}
+
+async function generateExercise(
+  kind: Exclude<QuestionKind, 'open'>,
+  prompt: string,
+  pack: LanguagePack,
+  model: string
+): Promise<{ question: string; exercise: Exercise }> {
+  const provider = getLLMProvider();
+
+  switch (kind) {
+    case 'multiple-choice': {
+      const result = await provider.generateJson({ model, prompt, schema: multipleChoiceSchema });
+      if (result.correctIndex >= result.options.length) {
+        throw new Error('Correct option index out of range');
+      }
+      return {
+        question: result.question,
+        exercise: { kind, options: result.options, correctIndex: result.correctIndex },
+      };
+    }
+    case 'cloze': {
+      const result = await provider.generateJson({ model, prompt, schema: clozeSchema });
+      const exercise: Exercise = {
+        kind,
+        before: result.before.trim(),
+        after: result.after.trim(),
+        answer: result.answer.trim(),
+        ...(result.hint ? { hint: result.hint } : {}),
+      };
+      return { question: `${pack.exerciseInstructions.cloze} ${getClozeSentence(exercise)}`, exercise };
+    }
+    case 'translation': {
+      const result = await provider.generateJson({ model, prompt, schema: translationSchema });
+      return {
+        question: `${pack.exerciseInstructions.translation} "${result.english}"`,
+        exercise: { kind, source: result.english, reference: result.translation },
+      };
+    }
+    case 'reorder': {
+      const result = await provider.generateJson({ model, prompt, schema: reorderSchema });
+      const words = shuffleWords(result.sentence);
+      // The words are part of the question text, which explanations, context and the response cache are keyed on
+      return {
+        question: `${pack.exerciseInstructions.reorder} ${words.join(' / ')}`,
+        exercise: { kind, words, solution: result.sentence.trim() },
+      };
+    }
+  }
+}
+
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
@@ -15,43 +110,71 @@ export default async function handler(
   }
 
   try {
-    const { answeredQuestions, currentLevel }: { answeredQuestions: Question[]; currentLevel: string } = req.body;
+    const uid = await authorizeRequest(req, res, 'generate-question');
+    if (!uid) return;
+
+    // The last few exchanges and a summary of everything before them, see src/services/learnerProfile.ts
+    const { recentExchanges, profile, currentLevel, kind = 'open', language, theme, grammarFocus: grammarFocusId }: {
+      recentExchanges: Exchange[];
+      profile?: LearnerProfile;
+      currentLevel: string;
+      kind?: QuestionKind;
+      language?: TargetLanguage;
+      theme?: PracticeTheme;
+      grammarFocus?: string; // Id from the language pack
+    } = req.body;
 
-    if (!answeredQuestions || !currentLevel) {
+    if (!recentExchanges || !currentLevel) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // Use all answered questions in chronological order
-    const conversationHistory = answeredQuestions
-      .filter(q => q.status === 'answered')
-      .sort((a, b) => {
-        const aTime = a.answers[a.answers.length - 1].answeredAt ? new Date(a.answers[a.answers.length - 1].answeredAt).getTime() : 0;
-        const bTime = b.answers[b.answers.length - 1].answeredAt ? new Date(b.answers[b.answers.length - 1].answeredAt).getTime() : 0;
-        return aTime - bTime;
-      })
-      .map(q => `Q: ${q.question}\nA: ${q.answers[q.answers.length - 1].answer}`)
-      .join('\n\n');
+    if (!isExchangeList(recentExchanges, RECENT_EXCHANGES)) {
+      return res.status(400).json({ error: 'Invalid or too many exchanges' });
+    }
 
-    const prompt = `You are a Dutch language teacher. Assume the student starts at ${currentLevel} level and does not know anything beyond that level.
+    if (profile !== undefined && !isLearnerProfile(profile)) {
+      return res.status(400).json({ error: 'Invalid learner profile' });
+    }
 
-${conversationHistory ? `Previous conversation:\n${conversationHistory}\n\n` : ''}
+    if (!QUESTION_KINDS.includes(kind)) {
+      return res.status(400).json({ error: 'Unknown question kind' });
+    }
 
-Ask them a question in Dutch. They must respond in Dutch. If their response was logical and without errors, ask a question on a teeny tiny bit more advanced topic. If it had errors, ask a question of the same topic/difficulty.
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
 
-DO NOT ADD ANY TEXT EXCEPT QUESTIONS THEMSELVES. Only output the question, nothing else.`;
+    if (theme !== undefined && !isPracticeTheme(theme)) {
+      return res.status(400).json({ error: 'Unknown theme' });
+    }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-    });
+    const grammarFocus = getGrammarFocus(pack, grammarFocusId);
+    if (grammarFocusId !== undefined && !grammarFocus) {
+      return res.status(400).json({ error: 'Unknown grammar focus' });
+    }
+
+    const input = { pack, level: currentLevel, recentExchanges, profile, theme, grammarFocus };
 
-    if (!response.text) {
-      throw new Error('No response text from AI');
+    if (kind !== 'open') {
+      const prompt = PROMPTS.generateExercise.render({ ...input, kind });
+      const generation = getGenerationInfo(PROMPTS.generateExercise);
+
+      const { question, exercise } = await generateExercise(kind, prompt, pack, generation.model);
+      return res.status(200).json({ question: question.trim(), exercise, generation });
     }
 
-    const questionText = response.text.trim();
+    const prompt = PROMPTS.generateQuestion.render(input);
+    const generation = getGenerationInfo(PROMPTS.generateQuestion);
+
+    const text = await getLLMProvider().generateText({
+      model: generation.model,
+      prompt,
+    });
+
+    const questionText = text.trim();
 
-    return res.status(200).json({ question: questionText });
+    return res.status(200).json({ question: questionText, generation });
   } catch (error) {
     console.error('Error generating question:', error);
     return res.status(500).json({ error: 'Failed to generate question' });
@@ -0,0 +1,85 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { HintKind, SupportLanguageSettings, TargetLanguage } from '../src/types';
+import { isHintKind } from '../src/services/hints';
+import { getLanguagePack, isSupportLanguageSettings, isTargetLanguage } from '../src/languages';
+import { CacheKeyParts, getCachedResponse, setCachedResponse } from '../server/response-cache';
+
+const hintsSchema = z.object({
+  vocabulary: z.string().describe('Key words and expressions with a short translation'),
+  structure: z.string().describe('The sentence structure of a good answer, without the answer itself'),
+  skeleton: z.string().describe('A partial answer with the key words replaced by ___'),
+});
+
+// One step of the hint ladder. All three hints are generated and cached together,
+// so climbing the ladder costs one model call per question
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const uid = await authorizeRequest(req, res, 'hint');
+    if (!uid) return;
+
+    const { question, level, kind, language, support }: {
+      question: string;
+      level: string;
+      kind: HintKind;
+      language?: TargetLanguage;
+      support?: SupportLanguageSettings;
+    } = req.body;
+
+    if (!question || !level) {
+      return res.status(400).json({ error: 'Missing question or level' });
+    }
+
+    if (!isHintKind(kind)) {
+      return res.status(400).json({ error: 'Unknown hint kind' });
+    }
+
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
+
+    if (support !== undefined && !isSupportLanguageSettings(support)) {
+      return res.status(400).json({ error: 'Unsupported support language' });
+    }
+
+    const generation = getGenerationInfo(PROMPTS.hint);
+    // The hints are only written in the support language, showing both languages doesn't change them
+    const cacheKey: CacheKeyParts = {
+      endpoint: 'hint',
+      question,
+      level,
+      language: pack.code,
+      support: support && { language: support.language },
+      generation,
+    };
+
+    const cached = await getCachedResponse(cacheKey);
+    let hints: z.infer<typeof hintsSchema>;
+    if (cached) {
+      hints = hintsSchema.parse(JSON.parse(cached));
+    } else {
+      hints = await getLLMProvider().generateJson({
+        model: generation.model,
+        prompt: PROMPTS.hint.render({ pack, question, level, support }),
+        schema: hintsSchema,
+      });
+      await setCachedResponse(cacheKey, JSON.stringify(hints));
+    }
+
+    return res.status(200).json({ hint: hints[kind].trim(), kind, generation });
+  } catch (error) {
+    console.error('Error generating hint:', error);
+    return res.status(500).json({ error: 'Failed to generate hint' });
+  }
+}
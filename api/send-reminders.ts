@@ -0,0 +1,67 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { getAdminApp } from '../server/firebase-admin';
+import { getPushService } from '../server/push-service';
+import { ReminderUser, runReminders } from '../server/reminders';
+import type { UserDocument } from '../src/types';
+
+// Called by Vercel Cron (see vercel.json), which sends CRON_SECRET as a bearer token
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const pushService = getPushService();
+
+    // With the console stand-in, ?now=<ISO date> simulates another moment for local testing
+    const now = pushService.name === 'console' && typeof req.query.now === 'string'
+      ? new Date(req.query.now)
+      : new Date();
+
+    const db = getFirestore(getAdminApp());
+    const snapshot = await db.collection('users').where('reminders.enabled', '==', true).get();
+    const users: ReminderUser[] = snapshot.docs.map(d => {
+      const data = d.data() as UserDocument;
+      return {
+        uid: d.id,
+        reminders: data.reminders!,
+        dailyQuestions: data.dailyQuestions || {},
+        targetLanguage: data.targetLanguage,
+      };
+    });
+
+    const results = await runReminders(users, pushService, now);
+
+    await Promise.all(results.map(result => {
+      const userRef = db.collection('users').doc(result.uid);
+      if (result.status === 'sent') {
+        return userRef.update({ 'reminders.lastSentDate': result.localDate });
+      }
+      if (result.status === 'unsubscribed') {
+        return userRef.update({
+          'reminders.enabled': false,
+          'reminders.subscription': FieldValue.delete(),
+        });
+      }
+      return null;
+    }));
+
+    return res.status(200).json({
+      sent: results.filter(r => r.status === 'sent').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      unsubscribed: results.filter(r => r.status === 'unsubscribed').length,
+    });
+  } catch (error) {
+    console.error('Error sending reminders:', error);
+    return res.status(500).json({ error: 'Failed to send reminders' });
+  }
+}
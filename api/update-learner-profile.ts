@@ -0,0 +1,72 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { z } from 'zod';
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { PROFILE_BATCH_SIZE, isExchangeList, isLearnerProfile, limitProfileItems } from '../src/services/learnerProfile';
+import { Exchange, LearnerProfile, TargetLanguage } from '../src/types';
+import { getLanguagePack, isTargetLanguage } from '../src/languages';
+
+const profileSchema = z.object({
+  topics: z.array(z.string()).describe('Topics and situations the student has practised'),
+  weaknesses: z.array(z.string()).describe('Grammar or vocabulary the student keeps getting wrong'),
+  mastered: z.array(z.string()).describe('Structures the student uses correctly again and again'),
+});
+
+// Fold exchanges that no longer fit in the generate-question prompt into the learner profile.
+// Returns only the lists, the caller keeps track of which exchanges are covered
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const uid = await authorizeRequest(req, res, 'update-learner-profile');
+    if (!uid) return;
+
+    const { profile, exchanges, language }: {
+      profile?: LearnerProfile;
+      exchanges: Exchange[];
+      language?: TargetLanguage;
+    } = req.body;
+
+    if (!exchanges || exchanges.length === 0) {
+      return res.status(400).json({ error: 'Missing exchanges' });
+    }
+
+    if (!isExchangeList(exchanges, PROFILE_BATCH_SIZE)) {
+      return res.status(400).json({ error: 'Invalid or too many exchanges' });
+    }
+
+    if (profile !== undefined && !isLearnerProfile(profile)) {
+      return res.status(400).json({ error: 'Invalid learner profile' });
+    }
+
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
+
+    const prompt = PROMPTS.updateLearnerProfile.render({ pack, profile, exchanges });
+    const generation = getGenerationInfo(PROMPTS.updateLearnerProfile);
+
+    const result = await getLLMProvider().generateJson({
+      model: generation.model,
+      prompt,
+      schema: profileSchema,
+    });
+
+    return res.status(200).json({
+      topics: limitProfileItems(result.topics),
+      weaknesses: limitProfileItems(result.weaknesses),
+      mastered: limitProfileItems(result.mastered),
+      generation,
+    });
+  } catch (error) {
+    console.error('Error updating learner profile:', error);
+    return res.status(500).json({ error: 'Failed to update learner profile' });
+  }
+}
@@ -1,14 +1,19 @@
-import { GoogleGenAI } from '@google/genai';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { z } from 'zod';
-
-const ai = new GoogleGenAI({
-  apiKey: process.env.GOOGLE_GENAI_API_KEY || '',
-});
+import { getLLMProvider } from '../server/llm';
+import { PROMPTS, getGenerationInfo } from '../server/prompts';
+import { authorizeRequest } from '../server/auth';
+import { MISTAKE_CATEGORIES, formatMistakes } from '../src/services/mistakes';
+import { getLanguagePack, isSupportLanguageSettings, isTargetLanguage } from '../src/languages';
+import { SupportLanguageSettings, TargetLanguage } from '../src/types';
 
 const validationSchema = z.object({
   correct: z.boolean().describe('Whether the answer is correct'),
-  mistakes: z.string().describe('List of mistakes found in the answer, or "none" if correct'),
+  mistakes: z.array(z.object({
+    category: z.enum(MISTAKE_CATEGORIES).describe('Kind of mistake'),
+    span: z.string().describe('The offending part of the answer, exactly as the student wrote it'),
+    correction: z.string().describe('The corrected version of that part'),
+  })).describe('Mistakes found in the answer, empty if completely correct'),
   explanation: z.string().describe('Explanation of the mistakes or why the answer is correct'),
 });
 
@@ -21,46 +26,46 @@ export default async function handler(
   }
 
   try {
-    const { question, answer }: { question: string; answer: string } = req.body;
+    const uid = await authorizeRequest(req, res, 'validate-answer');
+    if (!uid) return;
+
+    // `reference` is the expected answer of fill-in-the-blank, word order and translation exercises
+    const { question, answer, reference, language, support }: {
+      question: string;
+      answer: string;
+      reference?: string;
+      language?: TargetLanguage;
+      support?: SupportLanguageSettings;
+    } = req.body;
 
     if (!question || !answer) {
       return res.status(400).json({ error: 'Missing question or answer' });
     }
 
-    const prompt = `You are a Dutch language teacher evaluating a student's answer. You only see the question and the student's answer.
-
-Question: ${question}
-Student's Answer: ${answer}
+    if (language !== undefined && !isTargetLanguage(language)) {
+      return res.status(400).json({ error: 'Unsupported language' });
+    }
+    const pack = getLanguagePack(language);
 
-Evaluate the answer carefully:
-- If the answer is logical and correct in meaning AND grammar, mark correct: true
-- If there are only minor typos (spelling mistakes that don't change meaning, like "goed" vs "gooed"), mark correct: true BUT mention the typo in the explanation
-- If there are meaning errors, grammar errors, or significant mistakes, mark correct: false
+    if (support !== undefined && !isSupportLanguageSettings(support)) {
+      return res.status(400).json({ error: 'Unsupported support language' });
+    }
 
-Respond with:
-- correct: true if the answer is logical and without meaning/grammar errors (minor typos are acceptable), false otherwise
-- mistakes: list of specific mistakes found (including typos if any), or "none" if completely correct
-- explanation: detailed explanation. If there are only minor typos, mention them but confirm the answer is correct overall`;
+    const prompt = PROMPTS.validateAnswer.render({ pack, question, answer, reference, support });
+    const generation = getGenerationInfo(PROMPTS.validateAnswer);
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseJsonSchema: validationSchema.toJSONSchema(),
-      },
+    const result = await getLLMProvider().generateJson({
+      model: generation.model,
+      prompt,
+      schema: validationSchema,
     });
 
-    if (!response.text) {
-      throw new Error('No response text from AI');
-    }
-
-    const result = JSON.parse(response.text);
-
     return res.status(200).json({
       correct: result.correct,
-      mistakes: result.mistakes || 'none',
+      mistakes: formatMistakes(result.mistakes),
+      mistakeDetails: result.mistakes,
       explanation: result.explanation,
+      generation,
     });
   } catch (error) {
     console.error('Error validating answer:', error);
@@ -0,0 +1,125 @@
+import type { GenerationInfo, MistakeCategory } from '../../src/types';
+
+export interface CaseResult {
+  id: string;
+  tags: string[];
+  expectedCorrect: boolean;
+  expectedCategories: MistakeCategory[];
+  correct: boolean | null; // null when the handler failed
+  categories: MistakeCategory[];
+  explanation: string;
+  error?: string;
+}
+
+// "Correct" is the positive class: precision says how often a passed answer deserved it,
+// recall how many good answers were passed
+export interface RunSummary {
+  cases: number;
+  errors: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  // Wrong answers passed with nothing but spelling remarks, i.e. real mistakes excused as typos
+  typoFalsePositives: number;
+  typoFalsePositiveRate: number; // Share of the expected-incorrect cases
+  // Answers with only a typo that were failed anyway
+  typoStrictFailures: number;
+  categoryPrecision: number; // Micro-averaged over expected and reported mistake categories
+  categoryRecall: number;
+}
+
+export interface RunReport {
+  startedAt: string;
+  provider: string;
+  generation?: GenerationInfo; // Prompt and model of the validate-answer endpoint
+  summary: RunSummary;
+  results: CaseResult[];
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+export function isTypoFalsePositive(result: CaseResult): boolean {
+  return !result.expectedCorrect
+    && result.correct === true
+    && result.categories.length > 0
+    && result.categories.every(category => category === 'spelling');
+}
+
+export function summarize(results: CaseResult[]): RunSummary {
+  const graded = results.filter(r => r.correct !== null);
+  const truePositives = graded.filter(r => r.correct && r.expectedCorrect).length;
+  const falsePositives = graded.filter(r => r.correct && !r.expectedCorrect).length;
+  const falseNegatives = graded.filter(r => !r.correct && r.expectedCorrect).length;
+  const expectedIncorrect = graded.filter(r => !r.expectedCorrect).length;
+  const typoFalsePositives = graded.filter(isTypoFalsePositive).length;
+
+  let categoryMatches = 0;
+  let reportedCategories = 0;
+  let expectedCategories = 0;
+  for (const result of graded) {
+    const reported = new Set(result.categories);
+    const expected = new Set(result.expectedCategories);
+    categoryMatches += [...reported].filter(category => expected.has(category)).length;
+    reportedCategories += reported.size;
+    expectedCategories += expected.size;
+  }
+
+  return {
+    cases: results.length,
+    errors: results.length - graded.length,
+    accuracy: ratio(graded.filter(r => r.correct === r.expectedCorrect).length, graded.length),
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+    typoFalsePositives,
+    typoFalsePositiveRate: ratio(typoFalsePositives, expectedIncorrect),
+    typoStrictFailures: graded.filter(r => r.tags.includes('typo') && r.correct === false).length,
+    categoryPrecision: ratio(categoryMatches, reportedCategories),
+    categoryRecall: ratio(categoryMatches, expectedCategories),
+  };
+}
+
+export interface CaseChange {
+  id: string;
+  before: boolean | null;
+  after: boolean | null;
+  expected: boolean;
+}
+
+export interface RunDiff {
+  previousStartedAt: string;
+  summary: Partial<Record<keyof RunSummary, number>>; // Current minus previous, only for changed metrics
+  fixed: CaseChange[]; // Now graded as expected, previously not
+  regressed: CaseChange[]; // Previously graded as expected, now not
+  added: string[]; // Case ids the previous run didn't have
+}
+
+export function diffRuns(previous: RunReport, current: RunReport): RunDiff {
+  const summary: RunDiff['summary'] = {};
+  for (const key of Object.keys(current.summary) as (keyof RunSummary)[]) {
+    const delta = current.summary[key] - previous.summary[key];
+    if (delta !== 0) summary[key] = delta;
+  }
+
+  const previousResults = new Map(previous.results.map(r => [r.id, r]));
+  const fixed: CaseChange[] = [];
+  const regressed: CaseChange[] = [];
+  const added: string[] = [];
+
+  for (const result of current.results) {
+    const before = previousResults.get(result.id);
+    if (!before) {
+      added.push(result.id);
+      continue;
+    }
+
+    const wasRight = before.correct === before.expectedCorrect;
+    const isRight = result.correct === result.expectedCorrect;
+    const change = { id: result.id, before: before.correct, after: result.correct, expected: result.expectedCorrect };
+    if (!wasRight && isRight) fixed.push(change);
+    if (wasRight && !isRight) regressed.push(change);
+  }
+
+  return { previousStartedAt: previous.startedAt, summary, fixed, regressed, added };
+}
@@ -0,0 +1,193 @@
+// Grading regression eval: runs the golden dataset through the validate-answer handler
+// and compares the verdicts with the expected ones and with the previous run.
+//
+//   pnpm eval:grading [--provider gemini|mock] [--model <name>] [--tag <tag>]
+//
+// The provider and model default to LLM_PROVIDER and LLM_MODEL_VALIDATE_ANSWER/LLM_MODEL,
+// like the API itself. Reports of full runs are written to evals/grading/runs/.
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { MISTAKE_CATEGORIES } from '../../src/services/mistakes';
+import { TARGET_LANGUAGES } from '../../src/languages';
+import type { GenerationInfo, Mistake } from '../../src/types';
+import { CaseResult, RunDiff, RunReport, RunSummary, diffRuns, summarize } from './metrics';
+
+const EVAL_DIR = dirname(fileURLToPath(import.meta.url));
+const RUNS_DIR = join(EVAL_DIR, 'runs');
+
+const datasetSchema = z.object({
+  version: z.literal(1),
+  cases: z.array(z.object({
+    id: z.string(),
+    language: z.enum(TARGET_LANGUAGES).optional(),
+    question: z.string(),
+    answer: z.string(),
+    reference: z.string().optional(),
+    expected: z.object({
+      correct: z.boolean(),
+      categories: z.array(z.enum(MISTAKE_CATEGORIES)),
+    }),
+    tags: z.array(z.string()).optional(),
+  })),
+});
+
+type GoldenCase = z.infer<typeof datasetSchema>['cases'][number];
+
+interface HandlerResponse {
+  status: number;
+  body: any;
+}
+
+type Handler = (req: VercelRequest, res: VercelResponse) => Promise<unknown>;
+
+// Call a Vercel handler in-process with a minimal request and response
+async function callHandler(handler: Handler, body: unknown): Promise<HandlerResponse> {
+  const response: HandlerResponse = { status: 200, body: undefined };
+  const res = {
+    status(code: number) {
+      response.status = code;
+      return res;
+    },
+    json(data: unknown) {
+      response.body = data;
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+  };
+  await handler({ method: 'POST', headers: {}, body } as unknown as VercelRequest, res as unknown as VercelResponse);
+  return response;
+}
+
+async function gradeCase(handler: Handler, goldenCase: GoldenCase): Promise<{ result: CaseResult; generation?: GenerationInfo }> {
+  const base = {
+    id: goldenCase.id,
+    tags: goldenCase.tags || [],
+    expectedCorrect: goldenCase.expected.correct,
+    expectedCategories: goldenCase.expected.categories,
+  };
+
+  try {
+    const { status, body } = await callHandler(handler, {
+      question: goldenCase.question,
+      answer: goldenCase.answer,
+      reference: goldenCase.reference,
+      language: goldenCase.language,
+    });
+    if (status !== 200) {
+      return { result: { ...base, correct: null, categories: [], explanation: '', error: body?.error || `HTTP ${status}` } };
+    }
+
+    const categories = Array.from(new Set((body.mistakeDetails as Mistake[]).map(m => m.category)));
+    return {
+      result: { ...base, correct: body.correct, categories, explanation: body.explanation },
+      generation: body.generation,
+    };
+  } catch (error) {
+    return { result: { ...base, correct: null, categories: [], explanation: '', error: String(error) } };
+  }
+}
+
+async function loadPreviousRun(): Promise<RunReport | null> {
+  const files = (await readdir(RUNS_DIR).catch(() => [] as string[]))
+    .filter(file => file.endsWith('.json'))
+    .sort();
+  if (files.length === 0) return null;
+  return JSON.parse(await readFile(join(RUNS_DIR, files[files.length - 1]), 'utf8'));
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signedPercent = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}pp`;
+
+// Counts are printed as plain numbers, rates as percentages
+const COUNT_METRICS: (keyof RunSummary)[] = ['cases', 'errors', 'typoFalsePositives', 'typoStrictFailures'];
+
+function printReport(report: RunReport, diff: RunDiff | null) {
+  const { summary } = report;
+  const model = report.generation ? `${report.generation.model} (prompt ${report.generation.promptId} v${report.generation.promptVersion})` : 'unknown model';
+  console.log(`\nGrading eval: ${summary.cases} cases, provider ${report.provider}, ${model}\n`);
+
+  for (const result of report.results) {
+    const verdict = result.correct === null ? `ERROR ${result.error}` : result.correct ? 'correct' : 'incorrect';
+    const ok = result.correct === result.expectedCorrect ? '✓' : '✗';
+    const categories = result.categories.length > 0 ? ` [${result.categories.join(', ')}]` : '';
+    console.log(`${ok} ${result.id}: ${verdict}${categories}, expected ${result.expectedCorrect ? 'correct' : 'incorrect'}`);
+  }
+
+  console.log('');
+  for (const [key, value] of Object.entries(summary) as [keyof RunSummary, number][]) {
+    const delta = diff?.summary[key];
+    const formatted = COUNT_METRICS.includes(key) ? String(value) : percent(value);
+    const formattedDelta = delta === undefined ? '' : COUNT_METRICS.includes(key) ? ` (${delta > 0 ? '+' : ''}${delta})` : ` (${signedPercent(delta)})`;
+    console.log(`${key.padEnd(22)} ${formatted}${formattedDelta}`);
+  }
+
+  if (!diff) {
+    console.log('\nNo previous run to compare with.');
+    return;
+  }
+
+  console.log(`\nCompared with the run of ${diff.previousStartedAt}:`);
+  for (const change of diff.fixed) console.log(`  fixed     ${change.id}`);
+  for (const change of diff.regressed) console.log(`  regressed ${change.id}`);
+  for (const id of diff.added) console.log(`  new case  ${id}`);
+  if (diff.fixed.length + diff.regressed.length + diff.added.length === 0) console.log('  no verdict changes');
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      tag: { type: 'string' },
+    },
+  });
+
+  // The provider and model are read on the first LLM call, so set them before importing the handler
+  if (values.provider) process.env.LLM_PROVIDER = values.provider;
+  if (values.model) process.env.LLM_MODEL_VALIDATE_ANSWER = values.model;
+  process.env.API_AUTH_DISABLED = 'true';
+
+  const dataset = datasetSchema.parse(JSON.parse(await readFile(join(EVAL_DIR, 'golden.json'), 'utf8')));
+  const cases = values.tag ? dataset.cases.filter(c => c.tags?.includes(values.tag!)) : dataset.cases;
+  const { default: handler } = await import('../../api/validate-answer');
+
+  const startedAt = new Date().toISOString();
+  const results: CaseResult[] = [];
+  let generation: GenerationInfo | undefined;
+  // One at a time, the validate-answer rate limit and provider quotas apply here too
+  for (const goldenCase of cases) {
+    const graded = await gradeCase(handler, goldenCase);
+    results.push(graded.result);
+    generation = generation || graded.generation;
+  }
+
+  const report: RunReport = {
+    startedAt,
+    provider: process.env.LLM_PROVIDER || 'gemini',
+    generation,
+    summary: summarize(results),
+    results,
+  };
+
+  const previous = await loadPreviousRun();
+  printReport(report, previous ? diffRuns(previous, report) : null);
+
+  // A subset isn't a useful baseline for the next full run
+  if (values.tag) return;
+
+  await mkdir(RUNS_DIR, { recursive: true });
+  const file = join(RUNS_DIR, `${startedAt.replace(/[:.]/g, '-')}.json`);
+  await writeFile(file, JSON.stringify(report, null, 2));
+  console.log(`\nReport written to ${file}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,5 +1,5 @@
-// Service Worker for Dutch Learning PWA
-const CACHE_NAME = 'dutch-learn-v1';
+// Service Worker for the Language Learning PWA
+const CACHE_NAME = 'language-learn-v1';
 const urlsToCache = [
   '/',
   '/index.html',
@@ -78,3 +78,137 @@ self.addEventListener('activate', (event) => {
   // Take control of all pages immediately
   return self.clients.claim();
 });
+
+// Background sync - validate answers that were submitted while offline.
+// The queue lives in IndexedDB (see src/services/offlineQueue.ts); results are stored
+// back on each entry and the app saves them to Firestore once it is open.
+// No ID token is stored with the queue, an open window is asked for a fresh one.
+const OFFLINE_DB_NAME = 'qa-learn-offline';
+const OFFLINE_DB_VERSION = 1;
+const PENDING_ANSWERS_STORE = 'pendingAnswers';
+const SYNC_TAG = 'validate-answers';
+
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDatabase() {
+  const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(PENDING_ANSWERS_STORE, { keyPath: 'id' });
+  };
+  return requestToPromise(request);
+}
+
+const ID_TOKEN_TIMEOUT_MS = 5000;
+
+// Ask one window for the signed-in user's ID token, null if it doesn't answer in time
+function requestIdToken(client) {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timeout = setTimeout(() => resolve(null), ID_TOKEN_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout);
+      resolve(event.data && event.data.idToken ? event.data : null);
+    };
+    client.postMessage({ type: 'get-id-token' }, [channel.port2]);
+  });
+}
+
+async function getIdTokenFromClients() {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  for (const client of clients) {
+    const result = await requestIdToken(client);
+    if (result) return result;
+  }
+  return null;
+}
+
+async function validatePendingAnswers() {
+  // Without an open window there is no token; the app validates the queue when it is opened
+  const auth = await getIdTokenFromClients();
+  if (!auth) return;
+
+  const database = await openOfflineDatabase();
+  try {
+    const entries = await requestToPromise(
+      database.transaction(PENDING_ANSWERS_STORE, 'readonly').objectStore(PENDING_ANSWERS_STORE).getAll()
+    );
+
+    for (const entry of entries) {
+      // Entries of another account wait until that account signs in again
+      if (entry.validation || entry.uid !== auth.uid) continue;
+
+      const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${auth.idToken}` };
+
+      const response = await fetch('/api/validate-answer', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ question: entry.question, answer: entry.answer, reference: entry.reference, language: entry.language, support: entry.support }),
+      });
+      // The user signed out in the meantime, leave the entry for the app
+      if (response.status === 401) {
+        continue;
+      }
+      // Throwing makes the browser retry the sync later
+      if (!response.ok) {
+        throw new Error(`Validation failed with HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      entry.validation = {
+        correct: data.correct,
+        mistakes: data.mistakes || 'none',
+        mistakeDetails: data.mistakeDetails || [],
+        explanation: data.explanation,
+        generation: data.generation,
+      };
+      await requestToPromise(
+        database.transaction(PENDING_ANSWERS_STORE, 'readwrite').objectStore(PENDING_ANSWERS_STORE).put(entry)
+      );
+    }
+  } finally {
+    database.close();
+  }
+
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'answers-validated' }));
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(validatePendingAnswers());
+  }
+});
+
+// Push - daily practice reminders sent by api/send-reminders.ts
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Time to practice', {
+      body: data.body,
+      icon: '/icon.svg',
+      tag: 'daily-reminder',
+      data: { url: data.url || '/' },
+    })
+  );
+});
+
+// Focus an open window if there is one, otherwise open the app
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
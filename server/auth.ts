@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAuth } from 'firebase-admin/auth';
+import { getAdminApp } from './firebase-admin';
+import type { Endpoint } from './llm';
+import { consumeRateLimit } from './rate-limit';
+
+// Verify the Firebase ID token and apply the endpoint's rate limit.
+// Sends the 401/429 response itself and returns null when the request must stop
+export async function authorizeRequest(
+  req: VercelRequest,
+  res: VercelResponse,
+  endpoint: Endpoint
+): Promise<string | null> {
+  let uid: string;
+
+  // Local development only, e.g. together with LLM_PROVIDER=mock
+  if (process.env.API_AUTH_DISABLED === 'true') {
+    uid = 'local-dev';
+  } else {
+    const header = req.headers.authorization || '';
+    const idToken = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!idToken) {
+      res.status(401).json({ error: 'Missing authentication token' });
+      return null;
+    }
+
+    try {
+      const decoded = await getAuth(getAdminApp()).verifyIdToken(idToken);
+      uid = decoded.uid;
+    } catch (error) {
+      console.error('Error verifying ID token:', error);
+      res.status(401).json({ error: 'Invalid or expired authentication token' });
+      return null;
+    }
+  }
+
+  const rateLimit = await consumeRateLimit(uid, endpoint);
+  if (!rateLimit.allowed) {
+    res.setHeader('Retry-After', String(rateLimit.retryAfterSeconds));
+    res.status(429).json({
+      error: 'Too many requests, please try again later',
+      retryAfter: rateLimit.retryAfterSeconds,
+    });
+    return null;
+  }
+
+  return uid;
+}
@@ -0,0 +1,19 @@
+import { App, cert, getApps, initializeApp } from 'firebase-admin/app';
+
+// FIREBASE_SERVICE_ACCOUNT holds the service account JSON and is needed for Firestore access.
+// Verifying ID tokens only needs the project id
+export function getAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (serviceAccount) {
+    return initializeApp({ credential: cert(JSON.parse(serviceAccount)) });
+  }
+
+  return initializeApp({ projectId: process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID });
+}
+
+export function hasAdminCredentials(): boolean {
+  return !!process.env.FIREBASE_SERVICE_ACCOUNT;
+}
@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { GenerateJsonRequest, GenerateTextRequest, LLMProvider, parseJsonResponse } from './llm';
+
+type CallKind = 'text' | 'stream' | 'json';
+
+// One recorded call. JSON responses are kept as raw text so a fixture can be edited by hand,
+// e.g. to broken JSON or an empty text, to replay the error paths of the handlers
+export interface Fixture {
+  kind: CallKind;
+  model: string;
+  prompt: string;
+  text?: string; // text and json calls
+  chunks?: string[]; // stream calls
+  error?: string; // The provider threw, replayed as the same error
+}
+
+// Fixtures are looked up by everything that goes into the call, so a changed prompt,
+// model or schema needs a new recording
+function getFixtureKey(kind: CallKind, request: GenerateTextRequest, jsonSchema?: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      kind,
+      model: request.model,
+      prompt: request.prompt,
+      audio: request.audio ? createHash('sha256').update(request.audio.data).digest('hex') : null,
+      schema: jsonSchema ?? null,
+    }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function getJsonSchema<T>(request: GenerateJsonRequest<T>): unknown {
+  return request.schema.toJSONSchema();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readFixture(dir: string, key: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await readFile(join(dir, `${key}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// Replay a recorded call, failing the same way the real provider did or would
+function replayText(fixture: Fixture): string {
+  if (fixture.error) {
+    throw new Error(fixture.error);
+  }
+  // Same check as the real provider
+  if (!fixture.text) {
+    throw new Error('No response text from AI');
+  }
+  return fixture.text;
+}
+
+// A stream can fail halfway, so its chunks are yielded before the error is thrown
+async function* replayStream(fixture: Fixture): AsyncGenerator<string> {
+  const chunks = fixture.chunks || [];
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+  if (fixture.error) {
+    throw new Error(fixture.error);
+  }
+  if (chunks.length === 0) {
+    throw new Error('No response text from AI');
+  }
+}
+
+function replayJsonText(fixture: Fixture): string {
+  if (fixture.error) {
+    throw new Error(fixture.error);
+  }
+  return fixture.text || '';
+}
+
+// Passes calls without a fixture through to the real provider and saves the response to `dir`.
+// Existing fixtures are replayed, so hand-edited ones survive a new recording; delete one to record it again
+export function createRecordingProvider(inner: LLMProvider, dir: string): LLMProvider {
+  async function save(key: string, fixture: Fixture) {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${key}.json`), JSON.stringify(fixture, null, 2) + '\n');
+  }
+
+  async function generateJsonText<T>(request: GenerateJsonRequest<T>): Promise<string> {
+    const key = getFixtureKey('json', request, getJsonSchema(request));
+    const fixture = await readFixture(dir, key);
+    if (fixture) return replayJsonText(fixture);
+
+    const base = { kind: 'json' as const, model: request.model, prompt: request.prompt };
+    try {
+      // The raw text, so a response the schema rejects is recorded as it was
+      const text = await inner.generateJsonText(request);
+      await save(key, { ...base, text });
+      return text;
+    } catch (error) {
+      await save(key, { ...base, error: errorMessage(error) });
+      throw error;
+    }
+  }
+
+  return {
+    name: `${inner.name} (recording)`,
+
+    async generateText(request) {
+      const key = getFixtureKey('text', request);
+      const fixture = await readFixture(dir, key);
+      if (fixture) return replayText(fixture);
+
+      const base = { kind: 'text' as const, model: request.model, prompt: request.prompt };
+      try {
+        const text = await inner.generateText(request);
+        await save(key, { ...base, text });
+        return text;
+      } catch (error) {
+        await save(key, { ...base, error: errorMessage(error) });
+        throw error;
+      }
+    },
+
+    async *streamText(request) {
+      const key = getFixtureKey('stream', request);
+      const fixture = await readFixture(dir, key);
+      if (fixture) {
+        yield* replayStream(fixture);
+        return;
+      }
+
+      const base = { kind: 'stream' as const, model: request.model, prompt: request.prompt };
+      const chunks: string[] = [];
+      try {
+        for await (const chunk of inner.streamText(request)) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+        await save(key, { ...base, chunks });
+      } catch (error) {
+        await save(key, { ...base, chunks, error: errorMessage(error) });
+        throw error;
+      }
+    },
+
+    async generateJson(request) {
+      return parseJsonResponse(request.schema, await generateJsonText(request));
+    },
+
+    generateJsonText,
+  };
+}
+
+// Answers every call from the fixtures in `dir`, without a network or an API key
+export function createReplayProvider(dir: string): LLMProvider {
+  async function load(kind: CallKind, request: GenerateTextRequest, jsonSchema?: unknown): Promise<Fixture> {
+    const key = getFixtureKey(kind, request, jsonSchema);
+    const fixture = await readFixture(dir, key);
+    if (!fixture) {
+      throw new Error(`No LLM fixture ${key} for this ${kind} call to ${request.model}, record it with LLM_FIXTURES=record`);
+    }
+    return fixture;
+  }
+
+  async function generateJsonText<T>(request: GenerateJsonRequest<T>): Promise<string> {
+    return replayJsonText(await load('json', request, getJsonSchema(request)));
+  }
+
+  return {
+    name: 'replay',
+
+    async generateText(request) {
+      return replayText(await load('text', request));
+    },
+
+    async *streamText(request) {
+      yield* replayStream(await load('stream', request));
+    },
+
+    async generateJson(request) {
+      return parseJsonResponse(request.schema, await generateJsonText(request));
+    },
+
+    generateJsonText,
+  };
+}
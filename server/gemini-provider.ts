@@ -0,0 +1,69 @@
+import { GoogleGenAI } from '@google/genai';
+import { GenerateJsonRequest, GenerateTextRequest, LLMProvider, parseJsonResponse } from './llm';
+
+// Audio goes in as an inline part before the prompt
+function buildContents({ prompt, audio }: GenerateTextRequest) {
+  if (!audio) return prompt;
+  return [
+    { inlineData: { data: audio.data, mimeType: audio.mimeType } },
+    { text: prompt },
+  ];
+}
+
+export function createGeminiProvider(apiKey: string): LLMProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  async function generateJsonText<T>(request: GenerateJsonRequest<T>): Promise<string> {
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: buildContents(request),
+      config: {
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.schema.toJSONSchema(),
+      },
+    });
+    return response.text || '';
+  }
+
+  return {
+    name: 'gemini',
+
+    async generateText(request) {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: buildContents(request),
+      });
+
+      if (!response.text) {
+        throw new Error('No response text from AI');
+      }
+
+      return response.text;
+    },
+
+    async *streamText(request) {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: buildContents(request),
+      });
+
+      let receivedText = false;
+      for await (const chunk of stream) {
+        if (chunk.text) {
+          receivedText = true;
+          yield chunk.text;
+        }
+      }
+
+      if (!receivedText) {
+        throw new Error('No response text from AI');
+      }
+    },
+
+    async generateJson(request) {
+      return parseJsonResponse(request.schema, await generateJsonText(request));
+    },
+
+    generateJsonText,
+  };
+}
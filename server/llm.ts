@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { createGeminiProvider } from './gemini-provider';
+import { createMockProvider } from './mock-provider';
+import { createRecordingProvider, createReplayProvider } from './fixture-provider';
+
+export interface AudioInput {
+  data: string; // Base64
+  mimeType: string;
+}
+
+export interface GenerateTextRequest {
+  model: string;
+  prompt: string;
+  audio?: AudioInput; // Recording sent along with the prompt
+}
+
+export interface GenerateJsonRequest<T> extends GenerateTextRequest {
+  schema: z.ZodType<T>;
+}
+
+export interface LLMProvider {
+  name: string;
+  generateText(request: GenerateTextRequest): Promise<string>;
+  streamText(request: GenerateTextRequest): AsyncGenerator<string>;
+  generateJson<T>(request: GenerateJsonRequest<T>): Promise<T>;
+  // The response of generateJson as the model sent it, before parsing and validation
+  generateJsonText<T>(request: GenerateJsonRequest<T>): Promise<string>;
+}
+
+// Shared by every provider's generateJson, so replayed responses fail like live ones
+export function parseJsonResponse<T>(schema: z.ZodType<T>, text: string): T {
+  if (!text) {
+    throw new Error('No response text from AI');
+  }
+  return schema.parse(JSON.parse(text));
+}
+
+export type Endpoint =
+  | 'generate-question'
+  | 'validate-answer'
+  | 'explain-question'
+  | 'generate-context'
+  | 'assess-pronunciation'
+  | 'extract-vocabulary'
+  | 'update-learner-profile'
+  | 'hint';
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+const DEFAULT_FIXTURES_DIR = 'fixtures/llm';
+
+let provider: LLMProvider | null = null;
+
+function createProvider(name: string): LLMProvider {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(process.env.GOOGLE_GENAI_API_KEY || '');
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+// LLM_PROVIDER=mock runs the API routes offline with deterministic responses.
+// LLM_FIXTURES=record saves the responses of LLM_PROVIDER to LLM_FIXTURES_DIR,
+// LLM_FIXTURES=replay answers from those files instead of calling any provider
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const fixturesDir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+  const fixtures = process.env.LLM_FIXTURES;
+  switch (fixtures) {
+    case undefined:
+    case '':
+      provider = createProvider(process.env.LLM_PROVIDER || 'gemini');
+      break;
+    case 'record':
+      provider = createRecordingProvider(createProvider(process.env.LLM_PROVIDER || 'gemini'), fixturesDir);
+      break;
+    case 'replay':
+      provider = createReplayProvider(fixturesDir);
+      break;
+    default:
+      throw new Error(`Unknown LLM_FIXTURES mode: ${fixtures}`);
+  }
+
+  return provider;
+}
+
+// Per-endpoint override, e.g. LLM_MODEL_VALIDATE_ANSWER, then LLM_MODEL, then the default
+export function getModel(endpoint: Endpoint): string {
+  const key = `LLM_MODEL_${endpoint.toUpperCase().replace(/-/g, '_')}`;
+  return process.env[key] || process.env.LLM_MODEL || DEFAULT_MODEL;
+}
@@ -0,0 +1,79 @@
+import { GenerateJsonRequest, LLMProvider, parseJsonResponse } from './llm';
+
+const MOCK_SENTENCES = [
+  'Hoe heet je?',
+  'Waar woon je?',
+  'Wat eet je graag als ontbijt?',
+  'Wat heb je gisteren gedaan?',
+  'Hoe ga je naar je werk?',
+  'Wat ga je dit weekend doen?',
+];
+
+// Small stable hash so the same prompt always yields the same response
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// Build the simplest value that satisfies a JSON schema
+function sampleFromJsonSchema(schema: any, seed: number): unknown {
+  if (schema.enum) return schema.enum[seed % schema.enum.length];
+  if (schema.const !== undefined) return schema.const;
+  if (schema.anyOf) return sampleFromJsonSchema(schema.anyOf[0], seed);
+
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(schema.properties || {})) {
+        result[key] = sampleFromJsonSchema(value, seed);
+      }
+      return result;
+    }
+    case 'array':
+      // As few items as the schema allows, each with a different seed so they differ
+      return Array.from({ length: schema.minItems ?? 0 }, (_, i) => sampleFromJsonSchema(schema.items, seed + i));
+    case 'string':
+      return MOCK_SENTENCES[seed % MOCK_SENTENCES.length];
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+function mockText(prompt: string): string {
+  return MOCK_SENTENCES[hashString(prompt) % MOCK_SENTENCES.length];
+}
+
+async function generateJsonText<T>({ prompt, schema }: GenerateJsonRequest<T>): Promise<string> {
+  return JSON.stringify(sampleFromJsonSchema(schema.toJSONSchema(), hashString(prompt)));
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+
+    async generateText({ prompt }) {
+      return mockText(prompt);
+    },
+
+    // Word by word, to exercise the streaming code paths
+    async *streamText({ prompt }) {
+      for (const word of mockText(prompt).split(/(?<= )/)) {
+        yield word;
+      }
+    },
+
+    async generateJson(request) {
+      return parseJsonResponse(request.schema, await generateJsonText(request));
+    },
+
+    generateJsonText,
+  };
+}
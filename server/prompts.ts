@@ -0,0 +1,277 @@
+import { getModel } from './llm';
+import type { Endpoint } from './llm';
+import { MISTAKE_CATEGORIES } from '../src/services/mistakes';
+import { CLOZE_BLANK } from '../src/services/exercises';
+import { PROFILE_ITEM_LIMIT, formatExchanges } from '../src/services/learnerProfile';
+import { PRACTICE_THEME_DESCRIPTIONS } from '../src/services/practice';
+import { SUPPORT_LANGUAGE_NAMES, getSupportInstructions, getTranslationInstructions } from '../src/languages';
+import type { GrammarFocus, LanguagePack } from '../src/languages';
+import type { Exchange, GenerationInfo, LearnerProfile, PracticeTheme, QuestionKind, SupportLanguageSettings } from '../src/types';
+
+// Every prompt the API sends, with an id and a version that are recorded on the generated content.
+// Bump the version on every change to a template so old and new content can be told apart
+export type PromptId =
+  | 'generate-question'
+  | 'generate-exercise'
+  | 'validate-answer'
+  | 'explain-question'
+  | 'generate-context'
+  | 'assess-pronunciation'
+  | 'extract-vocabulary'
+  | 'update-learner-profile'
+  | 'hint';
+
+export interface PromptDefinition<TInput> {
+  id: PromptId;
+  version: number;
+  endpoint: Endpoint; // Decides the model, see getModel
+  render: (input: TInput) => string;
+}
+
+function definePrompt<TInput>(definition: PromptDefinition<TInput>): PromptDefinition<TInput> {
+  return definition;
+}
+
+// What to store next to the content a prompt produced
+export function getGenerationInfo(prompt: PromptDefinition<never>): GenerationInfo {
+  return { promptId: prompt.id, promptVersion: prompt.version, model: getModel(prompt.endpoint) };
+}
+
+type ProfileLists = Pick<LearnerProfile, 'topics' | 'weaknesses' | 'mastered'>;
+
+interface QuestionInput {
+  pack: LanguagePack;
+  level: string;
+  recentExchanges: Exchange[]; // Oldest first, may be empty
+  profile?: ProfileLists; // Summary of the exchanges before those
+  theme?: PracticeTheme;
+  grammarFocus?: GrammarFocus;
+}
+
+function renderProfile(profile: ProfileLists): string {
+  const list = (items: string[]) => (items.length > 0 ? items.join('; ') : 'none yet');
+  return `What you know about the student from earlier sessions:
+- Topics already covered: ${list(profile.topics)}
+- Recurring weaknesses: ${list(profile.weaknesses)}
+- Mastered structures: ${list(profile.mastered)}
+Prefer topics they haven't covered yet, keep practising their weaknesses and don't drill what they have mastered.
+
+`;
+}
+
+// The theme and grammar point the student chose to practise
+function renderFocus({ theme, grammarFocus }: QuestionInput): string {
+  const lines = [
+    ...(theme ? [`Set the question in this theme: ${PRACTICE_THEME_DESCRIPTIONS[theme]}.`] : []),
+    ...(grammarFocus ? [`The student wants to practise ${grammarFocus.description}. Make sure answering requires it.`] : []),
+  ];
+  return lines.length > 0 ? `${lines.join('\n')} These choices take priority over the topic of the previous conversation.\n\n` : '';
+}
+
+function renderTeacherIntro(input: QuestionInput): string {
+  const { pack, level, recentExchanges, profile } = input;
+  return `You are a ${pack.name} language teacher. Assume the student starts at ${level} level and does not know anything beyond that level. Levels follow the CEFR scale (A0 to C1); "early", "mid" and "goed" are steps within a level.
+
+${profile ? renderProfile(profile) : ''}${recentExchanges.length > 0 ? `Previous conversation:\n${formatExchanges(recentExchanges)}\n\n` : ''}${renderFocus(input)}`;
+}
+
+// Exercise instructions per kind, appended to the shared teacher intro
+function getKindInstructions(kind: Exclude<QuestionKind, 'open'>, pack: LanguagePack): string {
+  switch (kind) {
+    case 'multiple-choice':
+      return `Create a multiple choice question in ${pack.name} with 3 or 4 options. Exactly one option is correct, the others are plausible mistakes a learner at this level would make.`;
+    case 'cloze':
+      return `Create a fill-in-the-blank exercise: one ${pack.name} sentence with a single missing word that tests grammar or vocabulary at this level.`;
+    case 'translation':
+      return `Create a short English sentence for the student to translate into ${pack.name}.`;
+    case 'reorder':
+      return `Create one ${pack.name} sentence that tests word order (e.g. ${pack.prompts.wordOrderFocus}). The student will get the words shuffled.`;
+  }
+}
+
+export const PROMPTS = {
+  generateQuestion: definePrompt<QuestionInput>({
+    id: 'generate-question',
+    version: 3,
+    endpoint: 'generate-question',
+    render: (input) => `${renderTeacherIntro(input)}
+Ask them a question in ${input.pack.name}. They must respond in ${input.pack.name}. If their response was logical and without errors, ask a question on a teeny tiny bit more advanced topic. If it had errors, ask a question of the same topic/difficulty.
+
+DO NOT ADD ANY TEXT EXCEPT QUESTIONS THEMSELVES. Only output the question, nothing else.`,
+  }),
+
+  generateExercise: definePrompt<QuestionInput & { kind: Exclude<QuestionKind, 'open'> }>({
+    id: 'generate-exercise',
+    version: 3,
+    endpoint: 'generate-question',
+    render: (input) => `${renderTeacherIntro(input)}
+${getKindInstructions(input.kind, input.pack)} If the previous answers were logical and without errors, go a teeny tiny bit more advanced. If they had errors, stay on the same topic/difficulty.${input.kind === 'cloze' ? ` Do not put "${CLOZE_BLANK}" in the sentence parts.` : ''}`,
+  }),
+
+  validateAnswer: definePrompt<{
+    pack: LanguagePack;
+    question: string;
+    answer: string;
+    reference?: string;
+    support?: SupportLanguageSettings;
+  }>({
+    id: 'validate-answer',
+    version: 1,
+    endpoint: 'validate-answer',
+    render: ({ pack, question, answer, reference, support }) => `You are a ${pack.name} language teacher evaluating a student's answer. You only see the question and the student's answer.
+
+Question: ${question}
+${reference ? `Expected answer: ${reference} (other answers that are correct and natural ${pack.name} are fine too)\n` : ''}Student's Answer: ${answer}
+
+Evaluate the answer carefully:
+- If the answer is logical and correct in meaning AND grammar, mark correct: true
+- If there are only minor typos (spelling mistakes that don't change meaning, like ${pack.prompts.typoExample}), mark correct: true BUT mention the typo in the explanation
+- If there are meaning errors, grammar errors, or significant mistakes, mark correct: false
+
+Respond with:
+- correct: true if the answer is logical and without meaning/grammar errors (minor typos are acceptable), false otherwise
+- mistakes: list of specific mistakes found (including typos if any), empty if completely correct. Categorize each one:
+${MISTAKE_CATEGORIES.map(category => `  - ${category}: ${pack.prompts.mistakeCategories[category]}`).join('\n')}
+- explanation: detailed explanation. If there are only minor typos, mention them but confirm the answer is correct overall${support ? `
+
+${getSupportInstructions(support, pack, 'explanation')} Spans and corrections stay in ${pack.name}.` : ''}`,
+  }),
+
+  explainQuestion: definePrompt<{
+    pack: LanguagePack;
+    question: string;
+    level: string;
+    support?: SupportLanguageSettings;
+  }>({
+    id: 'explain-question',
+    version: 1,
+    endpoint: 'explain-question',
+    render: ({ pack, question, level, support }) => {
+      // Without a support language the explanation is in the target language when the level allows it
+      const languageInstructions = support
+        ? getSupportInstructions(support, pack, 'explanation')
+        : `If possible, do it in ${pack.name}. If their level is too low to explain this question in ${pack.name}, use English instead.`;
+
+      return `Explain this ${pack.name} language question to a person with level ${level}. ${languageInstructions}
+
+Question: ${question}
+
+Provide a clear explanation that helps them understand what is being asked.`;
+    },
+  }),
+
+  generateContext: definePrompt<{
+    pack: LanguagePack;
+    question: string;
+    level: string;
+    support?: SupportLanguageSettings;
+  }>({
+    id: 'generate-context',
+    version: 1,
+    endpoint: 'generate-context',
+    render: ({ pack, question, level, support }) => `You are a ${pack.name} language teacher. Generate a short conversation (3-5 exchanges) in ${pack.name} that leads up to asking this question: "${question}"
+
+The conversation should:
+- Be appropriate for ${level} level
+- Be natural and realistic
+- End with the question being asked
+- NOT include the answer to the question
+
+Format the conversation as following markdown:
+Person A: [dialogue]
+
+Person B: [dialogue]
+
+Person A: [dialogue]
+etc.
+
+Make it feel like a natural conversation that would lead to asking this question.${support?.showBoth ? `
+
+${getTranslationInstructions(support, 'conversation')} Keep the "Person A:" and "Person B:" labels in the translation.` : ''}`,
+  }),
+
+  assessPronunciation: definePrompt<{ pack: LanguagePack; question: string }>({
+    id: 'assess-pronunciation',
+    version: 1,
+    endpoint: 'assess-pronunciation',
+    render: ({ pack, question }) => `You are a ${pack.name} language teacher listening to a student's spoken answer to this question: "${question}"
+
+Transcribe what the student says and assess their pronunciation only. Grammar and vocabulary are checked separately, so transcribe mistakes as spoken instead of correcting them.
+
+Pay attention to sounds learners of ${pack.name} typically struggle with: ${pack.prompts.pronunciationFocus}.
+
+Respond with:
+- transcript: what the student said
+- score: 1 to 5
+- summary: short, encouraging feedback on their pronunciation
+- issues: the words that were mispronounced, with what was wrong and a tip`,
+  }),
+
+  extractVocabulary: definePrompt<{
+    pack: LanguagePack;
+    question: string;
+    answer?: string;
+    context?: string;
+    corrections?: string[];
+  }>({
+    id: 'extract-vocabulary',
+    version: 1,
+    endpoint: 'extract-vocabulary',
+    render: ({ pack, question, answer, context, corrections }) => `You are a ${pack.name} language teacher building a vocabulary list for a student. Extract the ${pack.name} words worth learning from these texts:
+
+Question: ${question}
+${answer ? `Student's answer: ${answer}\n` : ''}${context ? `Conversation:\n${context}\n` : ''}${corrections && corrections.length > 0 ? `Corrections of the student's mistakes: ${corrections.join('; ')}\n` : ''}
+Rules:
+- Use the dictionary form (lemma): ${pack.prompts.lemmaExamples}
+- Include nouns, verbs, adjectives, adverbs and useful fixed expressions
+- Skip names, numbers written as digits and the most basic function words (${pack.prompts.basicWords})
+- Only take words from the student's answer if they are correct ${pack.name}; take the corrected forms instead
+- Give nouns their article (${pack.articles.join('/')}) and plural`,
+  }),
+
+  updateLearnerProfile: definePrompt<{
+    pack: LanguagePack;
+    profile?: ProfileLists;
+    exchanges: Exchange[];
+  }>({
+    id: 'update-learner-profile',
+    version: 1,
+    endpoint: 'update-learner-profile',
+    render: ({ pack, profile, exchanges }) => `You are a ${pack.name} language teacher keeping notes on a student. ${profile ? `Your notes so far:
+- Topics covered: ${profile.topics.join('; ') || 'none'}
+- Recurring weaknesses: ${profile.weaknesses.join('; ') || 'none'}
+- Mastered structures: ${profile.mastered.join('; ') || 'none'}` : 'You have no notes yet.'}
+
+Update the notes with these exchanges, oldest first:
+
+${exchanges.map(e => `Q: ${e.question}\nA: ${e.answer}\nGraded: ${e.correct === undefined ? 'unknown' : e.correct ? 'correct' : 'incorrect'}${e.mistakes ? `, mistakes: ${e.mistakes}` : ''}`).join('\n\n')}
+
+Rules:
+- topics: topics and situations the student has practised, e.g. "ordering food", "daily routine"
+- weaknesses: grammar or vocabulary the student keeps getting wrong, e.g. "word order in subordinate clauses". Drop a weakness once they get it right consistently
+- mastered: structures the student uses correctly again and again
+- Keep what is still true from the old notes, merge duplicates and keep each entry short
+- At most ${PROFILE_ITEM_LIMIT} entries per list, most important first`,
+  }),
+
+  hint: definePrompt<{
+    pack: LanguagePack;
+    question: string;
+    level: string;
+    support?: SupportLanguageSettings;
+  }>({
+    id: 'hint',
+    version: 1,
+    endpoint: 'hint',
+    render: ({ pack, question, level, support }) => `You are a ${pack.name} language teacher. A student at ${level} level is stuck on this question and asks for hints before answering:
+
+Question: ${question}
+
+Write three hints, each one giving away a bit more than the one before:
+- vocabulary: 3 to 6 ${pack.name} words or expressions they will need, with a short translation. No full sentences
+- structure: the sentence structure of a good answer, e.g. which tense, word order or construction to use, without writing the answer
+- skeleton: a partial answer in ${pack.name} with the key words left out as "___", so the student still has to fill them in
+
+Keep each hint short and suitable for their level. Write translations and explanations in ${SUPPORT_LANGUAGE_NAMES[support?.language || 'en']}, ${pack.name} words stay in ${pack.name}.`,
+  }),
+};
@@ -0,0 +1,65 @@
+import webpush from 'web-push';
+import type { PushSubscriptionData } from '../src/types';
+
+export interface PushNotification {
+  title: string;
+  body: string;
+  url: string; // Opened when the notification is clicked
+}
+
+export interface PushService {
+  name: string;
+  // Resolves false when the subscription is gone and should be dropped
+  send(subscription: PushSubscriptionData, notification: PushNotification): Promise<boolean>;
+}
+
+function createWebPushService(): PushService {
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:admin@example.com',
+    process.env.VAPID_PUBLIC_KEY || '',
+    process.env.VAPID_PRIVATE_KEY || ''
+  );
+
+  return {
+    name: 'web-push',
+
+    async send(subscription, notification) {
+      try {
+        await webpush.sendNotification(subscription, JSON.stringify(notification));
+        return true;
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        // 404/410: the browser unsubscribed or the subscription expired
+        if (statusCode === 404 || statusCode === 410) {
+          return false;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+// Stand-in for local development: logs instead of delivering
+function createConsolePushService(): PushService {
+  return {
+    name: 'console',
+
+    async send(subscription, notification) {
+      console.log(`[push] ${subscription.endpoint}: ${notification.title} - ${notification.body}`);
+      return true;
+    },
+  };
+}
+
+// PUSH_SERVICE=console runs the reminder scheduler without a push service or VAPID keys
+export function getPushService(): PushService {
+  const name = process.env.PUSH_SERVICE || 'web-push';
+  switch (name) {
+    case 'web-push':
+      return createWebPushService();
+    case 'console':
+      return createConsolePushService();
+    default:
+      throw new Error(`Unknown push service: ${name}`);
+  }
+}
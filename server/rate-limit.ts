@@ -0,0 +1,83 @@
+import { getFirestore } from 'firebase-admin/firestore';
+import { getAdminApp, hasAdminCredentials } from './firebase-admin';
+import type { Endpoint } from './llm';
+
+interface RateLimit {
+  limit: number;
+  windowMs: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RATE_LIMITS: Record<Endpoint, RateLimit> = {
+  'generate-question': { limit: 60, windowMs: HOUR_MS },
+  'validate-answer': { limit: 120, windowMs: HOUR_MS },
+  'explain-question': { limit: 60, windowMs: HOUR_MS },
+  'generate-context': { limit: 60, windowMs: HOUR_MS },
+  'assess-pronunciation': { limit: 60, windowMs: HOUR_MS },
+  // Called after every answer, like validate-answer
+  'extract-vocabulary': { limit: 120, windowMs: HOUR_MS },
+  // Once every few questions at most
+  'update-learner-profile': { limit: 20, windowMs: HOUR_MS },
+  // Up to three per question, but cached after the first one
+  hint: { limit: 120, windowMs: HOUR_MS },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+interface WindowState {
+  windowStart: number;
+  count: number;
+}
+
+// Fixed window: the counter resets once the window has passed
+function nextWindowState(state: WindowState | undefined, now: number, windowMs: number): WindowState {
+  if (!state || now - state.windowStart >= windowMs) {
+    return { windowStart: now, count: 1 };
+  }
+  return { windowStart: state.windowStart, count: state.count + 1 };
+}
+
+function toResult(state: WindowState, now: number, { limit, windowMs }: RateLimit): RateLimitResult {
+  return {
+    allowed: state.count <= limit,
+    retryAfterSeconds: Math.ceil((state.windowStart + windowMs - now) / 1000),
+  };
+}
+
+// Per-instance fallback for local development, serverless instances don't share it
+const memoryWindows = new Map<string, WindowState>();
+
+function consumeInMemory(key: string, now: number, rateLimit: RateLimit): RateLimitResult {
+  const state = nextWindowState(memoryWindows.get(key), now, rateLimit.windowMs);
+  memoryWindows.set(key, state);
+  return toResult(state, now, rateLimit);
+}
+
+// Shared across instances, stored in the rateLimits collection
+async function consumeInFirestore(key: string, now: number, rateLimit: RateLimit): Promise<RateLimitResult> {
+  const db = getFirestore(getAdminApp());
+  const ref = db.collection('rateLimits').doc(key);
+
+  const state = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const next = nextWindowState(snapshot.data() as WindowState | undefined, now, rateLimit.windowMs);
+    transaction.set(ref, next);
+    return next;
+  });
+
+  return toResult(state, now, rateLimit);
+}
+
+export async function consumeRateLimit(uid: string, endpoint: Endpoint): Promise<RateLimitResult> {
+  const key = `${uid}_${endpoint}`;
+  const now = Date.now();
+  const rateLimit = RATE_LIMITS[endpoint];
+
+  return hasAdminCredentials()
+    ? consumeInFirestore(key, now, rateLimit)
+    : consumeInMemory(key, now, rateLimit);
+}
@@ -0,0 +1,100 @@
+import type { DailyQuestions, ReminderSettings, TargetLanguage } from '../src/types';
+import { getLanguagePack } from '../src/languages';
+import type { PushNotification, PushService } from './push-service';
+
+export interface ReminderUser {
+  uid: string;
+  reminders: ReminderSettings;
+  dailyQuestions: DailyQuestions;
+  targetLanguage?: TargetLanguage;
+}
+
+export interface ReminderResult {
+  uid: string;
+  status: 'sent' | 'skipped' | 'unsubscribed';
+  localDate: string;
+}
+
+// Date (YYYY-MM-DD) and time (HH:MM) as seen in the user's timezone
+export function getLocalDateTime(now: Date, timezone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+function questionsPracticedOn(dailyQuestions: DailyQuestions, date: string): number {
+  const day = dailyQuestions[date];
+  if (!day) return 0;
+  return new Set([...(day.answeredQuestionIds || []), ...(day.reviewedQuestionIds || [])]).size;
+}
+
+// Due once the reminder time has passed today, unless it was sent already or the goal is met.
+// Runs on a schedule, so "at or after" tolerates cron delays
+export function shouldSendReminder(user: ReminderUser, now: Date): { send: boolean; localDate: string } {
+  const { reminders, dailyQuestions } = user;
+  const { date, time } = getLocalDateTime(now, reminders.timezone);
+
+  const send =
+    reminders.enabled &&
+    !!reminders.subscription &&
+    time >= reminders.time &&
+    reminders.lastSentDate !== date &&
+    questionsPracticedOn(dailyQuestions, date) < reminders.dailyGoal;
+
+  return { send, localDate: date };
+}
+
+function buildNotification(user: ReminderUser, localDate: string): PushNotification {
+  const done = questionsPracticedOn(user.dailyQuestions, localDate);
+  const remaining = user.reminders.dailyGoal - done;
+
+  return {
+    title: `Time for your ${getLanguagePack(user.targetLanguage).name} practice`,
+    body: done === 0
+      ? `Your goal today is ${user.reminders.dailyGoal} ${user.reminders.dailyGoal === 1 ? 'question' : 'questions'}.`
+      : `${remaining} more ${remaining === 1 ? 'question' : 'questions'} to reach today's goal.`,
+    url: '/?action=new-question',
+  };
+}
+
+export async function runReminders(
+  users: ReminderUser[],
+  pushService: PushService,
+  now: Date
+): Promise<ReminderResult[]> {
+  const results: ReminderResult[] = [];
+
+  for (const user of users) {
+    let localDate = '';
+    try {
+      // Throws a RangeError for an invalid stored timezone
+      const due = shouldSendReminder(user, now);
+      localDate = due.localDate;
+      if (!due.send) {
+        results.push({ uid: user.uid, status: 'skipped', localDate });
+        continue;
+      }
+
+      const delivered = await pushService.send(user.reminders.subscription!, buildNotification(user, localDate));
+      results.push({ uid: user.uid, status: delivered ? 'sent' : 'unsubscribed', localDate });
+    } catch (error) {
+      // One failing user must not block everyone else's reminder
+      console.error(`Error sending reminder to ${user.uid}:`, error);
+      results.push({ uid: user.uid, status: 'skipped', localDate });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { getAdminApp, hasAdminCredentials } from './firebase-admin';
+import type { Endpoint } from './llm';
+import type { GenerationInfo, SupportLanguageSettings, TargetLanguage } from '../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_TTL_DAYS = 30;
+
+// Identical questions share one cached response per level, language, support language, prompt version and model
+export interface CacheKeyParts {
+  endpoint: Endpoint;
+  question: string;
+  level: string;
+  language: TargetLanguage;
+  support?: Pick<SupportLanguageSettings, 'language'> & Partial<SupportLanguageSettings>; // Only what changes the response
+  generation: GenerationInfo;
+}
+
+interface CacheEntry {
+  text: string;
+  expiresAt: number;
+}
+
+// Case, surrounding and repeated whitespace don't change what is being asked
+export function normalizeQuestionText(question: string): string {
+  return question.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function getCacheKey({ endpoint, question, level, language, support, generation }: CacheKeyParts): string {
+  const supportPart = support ? `\nsupport:${support.language}${support.showBoth ? '+both' : ''}` : '';
+  const hash = createHash('sha256')
+    .update(`${normalizeQuestionText(question)}\n${level.toLowerCase()}\n${language}${supportPart}\nmodel:${generation.model}`)
+    .digest('hex');
+  return `${endpoint}_v${generation.promptVersion}_${hash}`;
+}
+
+function getTtlMs(): number {
+  const days = Number(process.env.RESPONSE_CACHE_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS) * DAY_MS;
+}
+
+// Per-instance fallback for local development, serverless instances don't share it
+const memoryCache = new Map<string, CacheEntry>();
+
+// Shared across instances and users; expiresAt can also drive a Firestore TTL policy
+function cacheCollection() {
+  return getFirestore(getAdminApp()).collection('responseCache');
+}
+
+// Cache failures are logged and treated as a miss, they never fail the request
+export async function getCachedResponse(parts: CacheKeyParts): Promise<string | null> {
+  const key = getCacheKey(parts);
+  const now = Date.now();
+
+  if (!hasAdminCredentials()) {
+    const entry = memoryCache.get(key);
+    if (!entry || entry.expiresAt <= now) return null;
+    return entry.text;
+  }
+
+  try {
+    const snapshot = await cacheCollection().doc(key).get();
+    if (!snapshot.exists) return null;
+
+    const data = snapshot.data() as { text: string; expiresAt: Timestamp };
+    if (data.expiresAt.toMillis() <= now) return null;
+    return data.text;
+  } catch (error) {
+    console.error('Error reading response cache:', error);
+    return null;
+  }
+}
+
+export async function setCachedResponse(parts: CacheKeyParts, text: string): Promise<void> {
+  const key = getCacheKey(parts);
+  const expiresAt = Date.now() + getTtlMs();
+
+  if (!hasAdminCredentials()) {
+    memoryCache.set(key, { text, expiresAt });
+    return;
+  }
+
+  try {
+    await cacheCollection().doc(key).set({
+      text,
+      endpoint: parts.endpoint,
+      level: parts.level,
+      promptVersion: parts.generation.promptVersion,
+      model: parts.generation.model,
+      question: normalizeQuestionText(parts.question),
+      createdAt: Timestamp.now(),
+      expiresAt: Timestamp.fromMillis(expiresAt),
+    });
+  } catch (error) {
+    console.error('Error writing response cache:', error);
+  }
+}
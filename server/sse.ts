@@ -0,0 +1,51 @@
+import type { VercelResponse } from '@vercel/node';
+
+// Server-sent events: `chunk` events carry text deltas, then a single `done` or `error` event
+export function startEventStream(res: VercelResponse): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+}
+
+export function sendEvent(res: VercelResponse, event: 'chunk' | 'done' | 'error', data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Pipe a text stream to the client and return the full text, or null if generation failed.
+// `meta` is sent along with the final text, e.g. which prompt produced it
+export async function streamTextResponse(
+  res: VercelResponse,
+  chunks: AsyncIterable<string>,
+  errorMessage: string,
+  meta: Record<string, unknown> = {}
+): Promise<string | null> {
+  startEventStream(res);
+
+  let fullText = '';
+  try {
+    for await (const chunk of chunks) {
+      fullText += chunk;
+      sendEvent(res, 'chunk', { text: chunk });
+    }
+    sendEvent(res, 'done', { ...meta, text: fullText.trim() });
+  } catch (error) {
+    // Headers are already sent, so the failure has to travel in-band
+    console.error(`${errorMessage}:`, error);
+    sendEvent(res, 'error', { error: errorMessage });
+    res.end();
+    return null;
+  }
+
+  res.end();
+  return fullText.trim();
+}
+
+// Send an already complete text (e.g. from the cache) in the same event format
+export function sendTextAsEventStream(res: VercelResponse, text: string, meta: Record<string, unknown> = {}): void {
+  startEventStream(res);
+  sendEvent(res, 'chunk', { text });
+  sendEvent(res, 'done', { ...meta, text });
+  res.end();
+}
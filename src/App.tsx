@@ -1,29 +1,83 @@
 import { useEffect, useState, useRef } from 'react';
 import { onAuthStateChanged, signOut, User } from 'firebase/auth';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
 import { auth } from './firebase/config';
 import Auth from './components/Auth';
 import QuestionCard from './components/QuestionCard';
+import MistakeStats from './components/MistakeStats';
+import ProgressDashboard from './components/ProgressDashboard';
+import ReminderSettings from './components/ReminderSettings';
+import FeedbackLanguageSettings from './components/FeedbackLanguageSettings';
+import DataSettings from './components/DataSettings';
+import PracticeFocusSettings from './components/PracticeFocusSettings';
+import VocabularyPage from './components/VocabularyPage';
 import {
   getUserDocument,
+  getQuestionsPage,
+  getQuestion,
+  getAllQuestions,
+  getRecentAnsweredQuestions,
+  getQuestionsDueForReview,
   updateQuestion,
-  markQuestionAsked,
-  markQuestionAnswered,
-  addQuestion,
+  askQuestion,
+  recordAnswer,
+  changeLevel,
   updateUserDocument,
+  getVocabulary,
+  addVocabulary,
+  importBackup,
+  saveLearnerProfile,
+  getTodayDate,
 } from './services/firestore';
-import { generateQuestion, validateAnswer, explainQuestion, generateContext } from './services/ai';
-import { Question, UserDocument } from './types';
+import { generateQuestion, updateLearnerProfile, getHint, validateAnswer, assessPronunciation, extractVocabulary, explainQuestionStream, generateContextStream, describeApiError } from './services/ai';
+import { isQuestionDue } from './services/review';
+import { PROFILE_BATCH_SIZE, RECENT_EXCHANGES, getProfileContext } from './services/learnerProfile';
+import { pickPracticeFocus } from './services/practice';
+import { HINT_KINDS } from './services/hints';
+import { DEFAULT_LANGUAGE, LANGUAGE_PACKS, TARGET_LANGUAGES, getLanguagePack, getQuestionLanguage, getTargetLanguage } from './languages';
+import { QUESTION_KINDS, QUESTION_KIND_LABELS, getReferenceAnswer, gradeLocally, pickQuestionKind } from './services/exercises';
+import { LEVELS, LEVEL_BANDS, EVALUATION_WINDOW, LevelRecommendation, evaluateLevel, getLevelLabel } from './services/levels';
+import { DEFAULT_SPEECH_RATE, SPEECH_RATES, isSpeechSupported, loadVoices } from './services/speech';
+import { disableReminders, enableReminders, isPushSupported } from './services/reminders';
+import { ExportFormat, createBackup, downloadFile, parseBackup, toAnkiDeck, toCsv } from './services/backup';
+import { enqueueAnswer, flushPendingAnswers, getPendingAnswers, isNetworkError } from './services/offlineQueue';
+import { Answer, Exchange, LearnerProfile, LevelChange, ListeningSettings, PendingAnswer, PracticeFocus, Question, QuestionKind, SupportLanguageSettings, TargetLanguage, UserDocument, ValidationResponse, VocabularyEntry } from './types';
 import './index.css';
 
+const QUESTIONS_PAGE_SIZE = 20;
+const DEFAULT_LISTENING_SETTINGS: ListeningSettings = { listenOnly: false, rate: DEFAULT_SPEECH_RATE };
+
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [userDoc, setUserDoc] = useState<UserDocument | null>(null);
+  // Loaded questions, oldest first; older pages are fetched on demand
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questionsCursor, setQuestionsCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMoreQuestions, setHasMoreQuestions] = useState(false);
+  const [loadingMoreQuestions, setLoadingMoreQuestions] = useState(false);
+  const [dueQuestions, setDueQuestions] = useState<Question[]>([]);
+  const [pendingAnswers, setPendingAnswers] = useState<PendingAnswer[]>([]);
   const [loading, setLoading] = useState(true);
   const [generatingQuestion, setGeneratingQuestion] = useState(false);
   const [explainingQuestionId, setExplainingQuestionId] = useState<string | null>(null);
   const [generatingContextId, setGeneratingContextId] = useState<string | null>(null);
+  const [hintingQuestionId, setHintingQuestionId] = useState<string | null>(null);
+  // Hints revealed per question, kept until the question is answered correctly
+  const [hints, setHints] = useState<Record<string, string[]>>({});
+  // Partial text of the explanation/context currently being streamed
+  const [streamingExplanation, setStreamingExplanation] = useState('');
+  const [streamingContext, setStreamingContext] = useState('');
   const [validatingQuestionId, setValidatingQuestionId] = useState<string | null>(null);
   const [apiStatus, setApiStatus] = useState<string | null>(null);
+  const [apiError, setApiError] = useState<string | null>(null);
+  const [levelSuggestion, setLevelSuggestion] = useState<LevelRecommendation | null>(null);
+  // Target levels the user said "not now" to during this session
+  const [dismissedLevelSuggestions, setDismissedLevelSuggestions] = useState<string[]>([]);
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null);
+  // All questions, loaded only while the progress view is open
+  const [progressQuestions, setProgressQuestions] = useState<Question[] | null>(null);
+  const [vocabulary, setVocabulary] = useState<VocabularyEntry[] | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const questionsEndRef = useRef<HTMLDivElement>(null);
 
   const checkApi = async () => {
@@ -40,10 +94,25 @@ function App() {
     const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
       setUser(currentUser);
       if (currentUser) {
+        // The user document must be read first, it migrates inline questions
         const doc = await getUserDocument(currentUser.uid);
+        const [page, due] = await Promise.all([
+          getQuestionsPage(currentUser.uid, QUESTIONS_PAGE_SIZE),
+          getQuestionsDueForReview(currentUser.uid),
+        ]);
         setUserDoc(doc);
+        setQuestions(page.questions.slice().reverse());
+        setQuestionsCursor(page.cursor);
+        setHasMoreQuestions(page.hasMore);
+        setDueQuestions(due);
+        setPendingAnswers(await getPendingAnswers(currentUser.uid));
       } else {
         setUserDoc(null);
+        setQuestions([]);
+        setQuestionsCursor(null);
+        setHasMoreQuestions(false);
+        setDueQuestions([]);
+        setPendingAnswers([]);
       }
       setLoading(false);
     });
@@ -51,22 +120,201 @@ function App() {
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => {
+    loadVoices().then(setVoices);
+  }, []);
+
+  // Save answers queued while offline once we are back online,
+  // or once the service worker has validated them in the background
+  useEffect(() => {
+    if (!user) return;
+
+    const syncPendingAnswers = async () => {
+      try {
+        const queued = await getPendingAnswers(user.uid);
+        if (queued.length === 0 || !navigator.onLine) return;
+
+        const saved = await flushPendingAnswers(user.uid);
+        const remaining = await getPendingAnswers(user.uid);
+        setPendingAnswers(remaining);
+        if (saved === 0) return;
+
+        const savedQuestionIds = new Set(queued.filter(q => !remaining.some(r => r.id === q.id)).map(q => q.questionId));
+        for (const questionId of savedQuestionIds) {
+          const updated = await refreshQuestion(user.uid, questionId);
+          if (updated) {
+            updateGlossary(user.uid, updated, updated.answers[updated.answers.length - 1]);
+          }
+        }
+        setUserDoc(await getUserDocument(user.uid));
+        setDueQuestions(await getQuestionsDueForReview(user.uid));
+      } catch (error) {
+        console.error('Error saving offline answers:', error);
+        setApiError("Your offline answers couldn't be saved yet. They stay queued and are retried later.");
+      }
+    };
+
+    const handleServiceWorkerMessage = async (event: MessageEvent) => {
+      if (event.data?.type === 'answers-validated') {
+        syncPendingAnswers();
+      }
+      // Background sync needs a fresh ID token, nothing is stored for it
+      if (event.data?.type === 'get-id-token') {
+        const idToken = await user.getIdToken().catch(() => null);
+        event.ports[0]?.postMessage({ uid: user.uid, idToken });
+      }
+    };
+
+    syncPendingAnswers();
+    window.addEventListener('online', syncPendingAnswers);
+    navigator.serviceWorker?.addEventListener('message', handleServiceWorkerMessage);
+
+    return () => {
+      window.removeEventListener('online', syncPendingAnswers);
+      navigator.serviceWorker?.removeEventListener('message', handleServiceWorkerMessage);
+    };
+  }, [user]);
+
+  // Reminder notifications open the app with ?action=new-question
+  useEffect(() => {
+    if (!user || !userDoc || loading) return;
+
+    const params = new URLSearchParams(window.location.search);
+    if (params.get('action') !== 'new-question') return;
+
+    window.history.replaceState(null, '', window.location.pathname);
+    if (!hasUnansweredQuestions()) {
+      handleNewQuestion();
+    }
+  }, [user, userDoc, loading]);
+
   const handleSignOut = async () => {
     await signOut(auth);
   };
 
+  const applyLevelChange = async (to: string, reason: LevelChange['reason']) => {
+    if (!user || !userDoc || to === userDoc.level) return;
+    await changeLevel(user.uid, {
+      from: userDoc.level,
+      to,
+      reason,
+      changedAt: new Date().toISOString(),
+    });
+    setLevelSuggestion(null);
+    const updatedDoc = await getUserDocument(user.uid);
+    setUserDoc(updatedDoc);
+  };
+
   const handleLevelChange = async (newLevel: string) => {
+    await applyLevelChange(newLevel, 'manual');
+  };
+
+  const handleAutoLevelChange = async (autoLevel: boolean) => {
     if (!user) return;
-    await updateUserDocument(user.uid, { level: newLevel });
+    await updateUserDocument(user.uid, { autoLevel });
     const updatedDoc = await getUserDocument(user.uid);
     setUserDoc(updatedDoc);
   };
 
+  const handleTargetLanguageChange = async (targetLanguage: TargetLanguage) => {
+    if (!user || !userDoc) return;
+    setUserDoc({ ...userDoc, targetLanguage });
+    setReviewQueue(null);
+    await updateUserDocument(user.uid, { targetLanguage });
+  };
+
+  const handleSupportChange = async (support: SupportLanguageSettings) => {
+    if (!user || !userDoc) return;
+    setUserDoc({ ...userDoc, support });
+    await updateUserDocument(user.uid, { support });
+  };
+
+  const handleQuestionKindChange = async (questionKind: QuestionKind | 'mixed') => {
+    if (!user || !userDoc) return;
+    setUserDoc({ ...userDoc, questionKind });
+    await updateUserDocument(user.uid, { questionKind });
+  };
+
+  const handlePracticeFocusChange = async (practiceFocus: PracticeFocus) => {
+    if (!user || !userDoc) return;
+    setUserDoc({ ...userDoc, practiceFocus });
+    await updateUserDocument(user.uid, { practiceFocus });
+  };
+
+  const handleListeningChange = async (changes: Partial<ListeningSettings>) => {
+    if (!user || !userDoc) return;
+    const listening: ListeningSettings = { ...(userDoc.listening || DEFAULT_LISTENING_SETTINGS), ...changes };
+    setUserDoc({ ...userDoc, listening });
+    await updateUserDocument(user.uid, { listening });
+  };
+
+  const handleDismissLevelSuggestion = () => {
+    if (!levelSuggestion) return;
+    setDismissedLevelSuggestions(prev => [...prev, levelSuggestion.to]);
+    setLevelSuggestion(null);
+  };
+
+  // Check recent answers after each one and promote/demote, or suggest it.
+  // The level is shared, so only the language being practised counts towards it
+  const checkLevel = async (uid: string) => {
+    if (!userDoc) return;
+
+    // Loaded separately, the question list only holds the pages scrolled to so far
+    const recentQuestions = await getRecentAnsweredQuestions(uid, getTargetLanguage(userDoc), EVALUATION_WINDOW);
+    const recommendation = evaluateLevel(recentQuestions, userDoc.level, userDoc.levelHistory);
+    if (!recommendation) return;
+
+    if (userDoc.autoLevel) {
+      await applyLevelChange(recommendation.to, recommendation.reason);
+    } else if (!dismissedLevelSuggestions.includes(recommendation.to)) {
+      setLevelSuggestion(recommendation);
+    }
+  };
+
+  const handleLoadMoreQuestions = async () => {
+    if (!user || loadingMoreQuestions) return;
+
+    setLoadingMoreQuestions(true);
+    try {
+      const page = await getQuestionsPage(user.uid, QUESTIONS_PAGE_SIZE, questionsCursor);
+      setQuestions(prev => [...page.questions.slice().reverse(), ...prev]);
+      setQuestionsCursor(page.cursor);
+      setHasMoreQuestions(page.hasMore);
+    } catch (error) {
+      console.error('Error loading questions:', error);
+    } finally {
+      setLoadingMoreQuestions(false);
+    }
+  };
+
+  const findQuestion = (questionId: string) => {
+    return questions.find(q => q.id === questionId) || dueQuestions.find(q => q.id === questionId);
+  };
+
+  // Put a changed question in place in the loaded lists
+  const replaceQuestion = (updated: Question) => {
+    setQuestions(prev => prev.map(q => (q.id === updated.id ? updated : q)));
+    setDueQuestions(prev => prev.map(q => (q.id === updated.id ? updated : q)));
+  };
+
+  // Reload a single question after it changed
+  const refreshQuestion = async (uid: string, questionId: string) => {
+    const updated = await getQuestion(uid, questionId);
+    if (updated) replaceQuestion(updated);
+    return updated;
+  };
+
+  // Questions in other languages than the current one stay stored but out of sight
+  const getLanguageQuestions = (list: Question[]) => {
+    const language = getTargetLanguage(userDoc);
+    return list.filter(q => getQuestionLanguage(q) === language);
+  };
+
   const hasUnansweredQuestions = () => {
     if (!userDoc) return false;
 
     // Check if there are any questions with status 'asked' that haven't been answered at least once
-    const hasAskedQuestions = userDoc.questions.some(
+    const hasAskedQuestions = getLanguageQuestions(questions).some(
       q => q.status === 'asked' && (!q.answers || q.answers.length === 0)
     );
 
@@ -78,78 +326,290 @@ function App() {
 
     setGeneratingQuestion(true);
     try {
-      const answeredQuestions = userDoc.questions.filter(q => q.status === 'answered');
-      const questionText = await generateQuestion(answeredQuestions, userDoc.level);
+      const language = getTargetLanguage(userDoc);
+      // Only questions in the same language make sense as conversation history.
+      // getProfileContext keeps no more than the recent window plus one profile batch
+      const answeredQuestions = await getRecentAnsweredQuestions(user.uid, language, RECENT_EXCHANGES + PROFILE_BATCH_SIZE);
+      const profile = userDoc.learnerProfiles?.[language];
+      const { recent, pending } = getProfileContext(answeredQuestions, profile);
+      const focus = pickPracticeFocus(userDoc.practiceFocus, language, getLanguagePack(language));
+      const generated = await generateQuestion(recent, profile, userDoc.level, language, pickQuestionKind(userDoc.questionKind), focus);
 
       const newQuestion: Question = {
         id: Date.now().toString(),
         status: 'asked',
-        question: questionText,
+        ...generated,
+        ...focus,
+        // Dutch questions keep the field unset, like everything stored before other languages
+        ...(language !== DEFAULT_LANGUAGE ? { language } : {}),
         answers: [],
         askedAt: new Date().toISOString(),
       };
 
-      await addQuestion(user.uid, newQuestion);
-      await markQuestionAsked(user.uid, newQuestion.id);
+      await askQuestion(user.uid, newQuestion);
 
       const updatedDoc = await getUserDocument(user.uid);
       setUserDoc(updatedDoc);
+      setQuestions(prev => [...prev, newQuestion]);
+      // Not awaited, the next question can use the updated profile
+      if (pending) {
+        refreshLearnerProfile(user.uid, language, profile, pending.exchanges, pending.upTo);
+      }
     } catch (error) {
       console.error('Error generating question:', error);
+      setApiError(describeApiError(error));
     } finally {
       setGeneratingQuestion(false);
     }
   };
 
+  // Fold exchanges that dropped out of the generate-question window into the learner profile
+  const refreshLearnerProfile = async (
+    uid: string,
+    language: TargetLanguage,
+    profile: LearnerProfile | undefined,
+    exchanges: Exchange[],
+    upTo: string
+  ) => {
+    try {
+      const lists = await updateLearnerProfile(profile, exchanges, language);
+      const updated: LearnerProfile = { ...lists, summarizedUpTo: upTo, updatedAt: new Date().toISOString() };
+      await saveLearnerProfile(uid, language, updated);
+      setUserDoc(prev => prev && { ...prev, learnerProfiles: { ...prev.learnerProfiles, [language]: updated } });
+    } catch (error) {
+      console.error('Error updating learner profile:', error);
+    }
+  };
+
+  const saveAnswer = async (uid: string, questionId: string, newAnswer: Answer) => {
+    // Appends the answer and updates daily tracking in one transaction
+    const updatedQuestion = await recordAnswer(uid, questionId, newAnswer);
+    replaceQuestion(updatedQuestion);
+
+    const updatedDoc = await getUserDocument(uid);
+    setUserDoc(updatedDoc);
+    await checkLevel(uid);
+    // The next attempt, e.g. in a review, starts without hints
+    if (newAnswer.isCorrect) {
+      setHints(prev => {
+        const next = { ...prev };
+        delete next[questionId];
+        return next;
+      });
+    }
+    // Answers change the review schedule
+    setDueQuestions(await getQuestionsDueForReview(uid));
+    // Not awaited, the glossary can catch up in the background
+    updateGlossary(uid, updatedQuestion, newAnswer);
+  };
+
+  // Add the words of a validated answer, its question, context and corrections to the glossary
+  const updateGlossary = async (uid: string, question: Question, answer: Answer) => {
+    try {
+      const corrections = (answer.mistakeDetails || []).map(m => m.correction);
+      const language = getQuestionLanguage(question);
+      const words = await extractVocabulary(question.question, language, answer.answer, question.contextConversation, corrections);
+      if (words.length > 0) {
+        await addVocabulary(uid, question.id, language, words);
+      }
+    } catch (error) {
+      console.error('Error updating vocabulary:', error);
+    }
+  };
+
+  // Absent rather than 0, so unassisted answers look like the ones stored before hints existed
+  const getHintsUsed = (questionId: string): number | undefined => hints[questionId]?.length || undefined;
+
   const handleAnswer = async (questionId: string, answerText: string) => {
     if (!user || !userDoc || validatingQuestionId) return;
 
     setValidatingQuestionId(questionId);
     try {
-      const question = userDoc.questions.find(q => q.id === questionId);
+      const question = findQuestion(questionId);
       if (!question) return;
 
-      const validation = await validateAnswer(question.question, answerText);
+      const reference = getReferenceAnswer(question.exercise);
+      const hintsUsed = getHintsUsed(questionId);
+      // Objective exercises are graded right here, the rest goes to the model
+      const localValidation = gradeLocally(question, answerText);
+
+      // Offline: keep the answer locally and validate and save it when connectivity returns
+      const queueAnswer = async (validation?: ValidationResponse) => {
+        const pending = await enqueueAnswer({
+          uid: user.uid,
+          questionId,
+          question: question.question,
+          answer: answerText,
+          reference,
+          language: getQuestionLanguage(question),
+          support: userDoc.support,
+          hintsUsed,
+          submittedAt: new Date().toISOString(),
+          validation,
+        });
+        setPendingAnswers(prev => [...prev, pending]);
+      };
+
+      let validation: ValidationResponse;
+      if (localValidation) {
+        if (!navigator.onLine) {
+          await queueAnswer(localValidation);
+          return;
+        }
+        validation = localValidation;
+      } else {
+        try {
+          validation = await validateAnswer(question.question, answerText, getQuestionLanguage(question), reference, userDoc.support);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          await queueAnswer();
+          return;
+        }
+      }
 
-      const newAnswer = {
+      await saveAnswer(user.uid, questionId, {
         answer: answerText,
         isCorrect: validation.correct,
         mistakes: validation.mistakes,
+        mistakeDetails: validation.mistakeDetails,
         explanation: validation.explanation,
+        generation: validation.generation,
+        hintsUsed,
         answeredAt: new Date().toISOString(),
-      };
+      });
+    } catch (error) {
+      console.error('Error validating answer:', error);
+      setApiError(describeApiError(error));
+    } finally {
+      setValidatingQuestionId(null);
+    }
+  };
 
-      // Get existing answers array or initialize it
-      const existingAnswers = question.answers || [];
-      const updatedAnswers = [...existingAnswers, newAnswer];
+  // Spoken answers are transcribed with pronunciation feedback, then graded like typed ones
+  const handleSpokenAnswer = async (questionId: string, recording: Blob) => {
+    if (!user || !userDoc || validatingQuestionId) return;
 
-      // Update question with new answer
-      await updateQuestion(user.uid, questionId, {
-        answers: updatedAnswers,
-        // Set status to answered if this is the first answer
-        status: existingAnswers.length === 0 ? 'answered' : question.status,
-      });
+    setValidatingQuestionId(questionId);
+    try {
+      const question = findQuestion(questionId);
+      if (!question) return;
 
-      // Mark as answered in daily questions if first answer
-      if (existingAnswers.length === 0) {
-        await markQuestionAnswered(user.uid, questionId);
+      const language = getQuestionLanguage(question);
+      const { transcript, pronunciation } = await assessPronunciation(question.question, recording, language);
+      if (!transcript) {
+        setApiError("We couldn't hear an answer in the recording. Please try again.");
+        return;
       }
 
-      const updatedDoc = await getUserDocument(user.uid);
-      setUserDoc(updatedDoc);
+      const validation = await validateAnswer(question.question, transcript, language, getReferenceAnswer(question.exercise), userDoc.support);
+      await saveAnswer(user.uid, questionId, {
+        answer: transcript,
+        isCorrect: validation.correct,
+        mistakes: validation.mistakes,
+        mistakeDetails: validation.mistakeDetails,
+        explanation: validation.explanation,
+        generation: validation.generation,
+        pronunciation,
+        hintsUsed: getHintsUsed(questionId),
+        answeredAt: new Date().toISOString(),
+      });
     } catch (error) {
-      console.error('Error validating answer:', error);
+      console.error('Error assessing spoken answer:', error);
+      // Recordings are not queued offline, they need the API right away
+      setApiError(isNetworkError(error) ? 'Spoken answers need an internet connection.' : describeApiError(error));
     } finally {
       setValidatingQuestionId(null);
     }
   };
 
+  const handleToggleProgress = async () => {
+    if (!user) return;
+    if (progressQuestions) {
+      setProgressQuestions(null);
+      return;
+    }
+
+    try {
+      setProgressQuestions(await getAllQuestions(user.uid));
+      setVocabulary(null);
+    } catch (error) {
+      console.error('Error loading progress:', error);
+    }
+  };
+
+  const handleToggleVocabulary = async () => {
+    if (!user) return;
+    if (vocabulary) {
+      setVocabulary(null);
+      return;
+    }
+
+    try {
+      setVocabulary(await getVocabulary(user.uid));
+      setProgressQuestions(null);
+    } catch (error) {
+      console.error('Error loading vocabulary:', error);
+    }
+  };
+
+  const handleEnableReminders = async (time: string, dailyGoal: number) => {
+    if (!user) return;
+    const reminders = await enableReminders(user.uid, time, dailyGoal);
+    setUserDoc(prev => (prev ? { ...prev, reminders } : prev));
+  };
+
+  const handleDisableReminders = async () => {
+    if (!user || !userDoc?.reminders) return;
+    await disableReminders(user.uid, userDoc.reminders);
+    setUserDoc(await getUserDocument(user.uid));
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!user || !userDoc) return;
+    const allQuestions = await getAllQuestions(user.uid);
+    const date = getTodayDate();
+
+    if (format === 'json') {
+      const backup = createBackup(allQuestions, userDoc.dailyQuestions);
+      downloadFile(`learning-backup-${date}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    } else if (format === 'csv') {
+      downloadFile(`learning-history-${date}.csv`, toCsv(allQuestions), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`learning-corrections-${date}.txt`, toAnkiDeck(allQuestions), 'text/plain;charset=utf-8');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (!user) throw new Error('Not signed in');
+    const backup = parseBackup(await file.text());
+    const result = await importBackup(user.uid, backup);
+
+    // Reload like after signing in, imported questions can be anywhere in the timeline
+    const [page, due, doc, allQuestions] = await Promise.all([
+      getQuestionsPage(user.uid, QUESTIONS_PAGE_SIZE),
+      getQuestionsDueForReview(user.uid),
+      getUserDocument(user.uid),
+      getAllQuestions(user.uid),
+    ]);
+    setQuestions(page.questions.slice().reverse());
+    setQuestionsCursor(page.cursor);
+    setHasMoreQuestions(page.hasMore);
+    setDueQuestions(due);
+    setUserDoc(doc);
+    setProgressQuestions(allQuestions);
+    return result;
+  };
+
+  const handleStartReview = () => {
+    setReviewQueue(getLanguageQuestions(dueQuestions).map(q => q.id));
+  };
+
   const handleGenerateContext = async (questionId: string) => {
     if (!user || !userDoc || generatingContextId) return;
 
     setGeneratingContextId(questionId);
     try {
-      const question = userDoc.questions.find(q => q.id === questionId);
+      const question = findQuestion(questionId);
       if (!question) return;
 
       // Check if already generated (cached)
@@ -157,18 +617,42 @@ function App() {
         return;
       }
 
-      const contextConversation = await generateContext(question.question, userDoc.level);
+      const { text: contextConversation, generation } = await generateContextStream(question.question, userDoc.level, getQuestionLanguage(question), userDoc.support, setStreamingContext);
 
       await updateQuestion(user.uid, questionId, {
         contextConversation,
+        contextGeneration: generation,
       });
 
-      const updatedDoc = await getUserDocument(user.uid);
-      setUserDoc(updatedDoc);
+      await refreshQuestion(user.uid, questionId);
     } catch (error) {
       console.error('Error generating context:', error);
+      setApiError(describeApiError(error));
     } finally {
       setGeneratingContextId(null);
+      setStreamingContext('');
+    }
+  };
+
+  // Reveal the next step of the hint ladder
+  const handleHint = async (questionId: string) => {
+    if (!user || !userDoc || hintingQuestionId) return;
+
+    const revealed = hints[questionId] || [];
+    if (revealed.length >= HINT_KINDS.length) return;
+
+    setHintingQuestionId(questionId);
+    try {
+      const question = findQuestion(questionId);
+      if (!question) return;
+
+      const { text } = await getHint(question.question, userDoc.level, HINT_KINDS[revealed.length], getQuestionLanguage(question), userDoc.support);
+      setHints(prev => ({ ...prev, [questionId]: [...(prev[questionId] || []), text] }));
+    } catch (error) {
+      console.error('Error getting hint:', error);
+      setApiError(describeApiError(error));
+    } finally {
+      setHintingQuestionId(null);
     }
   };
 
@@ -177,7 +661,7 @@ function App() {
 
     setExplainingQuestionId(questionId);
     try {
-      const question = userDoc.questions.find(q => q.id === questionId);
+      const question = findQuestion(questionId);
       if (!question) return;
 
       // Check if already explained (cached)
@@ -185,18 +669,20 @@ function App() {
         return;
       }
 
-      const questionExplanation = await explainQuestion(question.question, userDoc.level);
+      const { text: questionExplanation, generation } = await explainQuestionStream(question.question, userDoc.level, getQuestionLanguage(question), userDoc.support, setStreamingExplanation);
 
       await updateQuestion(user.uid, questionId, {
         questionExplanation,
+        explanationGeneration: generation,
       });
 
-      const updatedDoc = await getUserDocument(user.uid);
-      setUserDoc(updatedDoc);
+      await refreshQuestion(user.uid, questionId);
     } catch (error) {
       console.error('Error explaining question:', error);
+      setApiError(describeApiError(error));
     } finally {
       setExplainingQuestionId(null);
+      setStreamingExplanation('');
     }
   };
 
@@ -213,34 +699,104 @@ function App() {
   }
 
   const unansweredQuestions = hasUnansweredQuestions();
+  const listeningSettings = userDoc?.listening || DEFAULT_LISTENING_SETTINGS;
+  const dueCount = getLanguageQuestions(dueQuestions).filter(q => isQuestionDue(q)).length;
+  const targetLanguage = getTargetLanguage(userDoc);
+  const languagePack = getLanguagePack(targetLanguage);
+  const visibleQuestions = getLanguageQuestions(questions);
+
+  // Questions drop out of the queue once they are answered correctly again
+  const reviewQuestions = reviewQueue
+    ? reviewQueue
+      .map(id => findQuestion(id))
+      .filter((q): q is Question => !!q && isQuestionDue(q))
+    : [];
+  const currentReviewQuestion = reviewQuestions[0];
 
   return (
     <div className="min-h-screen bg-[#faf9f6]">
       <header className="bg-white/80 backdrop-blur-sm border-b border-gray-100 sticky top-0 z-10">
         <div className="max-w-4xl mx-auto px-4 md:px-6 py-5 flex justify-between items-center">
-          <h1 className="text-2xl font-bold tracking-tight text-gray-900">Dutch Learning</h1>
+          <h1 className="text-2xl font-bold tracking-tight text-gray-900">{languagePack.name} Learning</h1>
           <div className="flex items-center gap-3">
             {apiStatus && (
               <span className={`text-xs px-3 py-1.5 rounded-full font-medium ${apiStatus === 'API is reachable' ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
                 {apiStatus}
               </span>
             )}
+            <button
+              onClick={handleToggleProgress}
+              className="text-xs text-gray-500 hover:text-gray-900 transition-colors font-medium"
+            >
+              {progressQuestions ? 'Questions' : '📊 Progress'}
+            </button>
+            <button
+              onClick={handleToggleVocabulary}
+              className="text-xs text-gray-500 hover:text-gray-900 transition-colors font-medium"
+            >
+              {vocabulary ? 'Questions' : '📖 Vocabulary'}
+            </button>
             <button
               onClick={checkApi}
               className="text-xs text-gray-500 hover:text-gray-900 transition-colors font-medium"
             >
               Check API
             </button>
+            <select
+              value={targetLanguage}
+              onChange={(e) => handleTargetLanguageChange(e.target.value as TargetLanguage)}
+              title="Language you are learning"
+              className="text-sm text-gray-900 border border-gray-200 rounded-lg px-3 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all cursor-pointer font-medium"
+            >
+              {TARGET_LANGUAGES.map(code => (
+                <option key={code} value={code}>{LANGUAGE_PACKS[code].flag} {LANGUAGE_PACKS[code].nativeName}</option>
+              ))}
+            </select>
             <select
               value={userDoc?.level || 'a0'}
               onChange={(e) => handleLevelChange(e.target.value)}
               className="text-sm text-gray-900 border border-gray-200 rounded-lg px-4 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all cursor-pointer font-medium"
             >
-              <option value="a0">A0</option>
-              <option value="a1-early">A1-Early</option>
-              <option value="a1-mid">A1-Mid</option>
-              <option value="a1-goed">A1-Goed</option>
+              {LEVEL_BANDS.map(band => (
+                <optgroup key={band} label={band}>
+                  {LEVELS.filter(l => l.band === band).map(l => (
+                    <option key={l.id} value={l.id}>{getLevelLabel(l.id, targetLanguage)}</option>
+                  ))}
+                </optgroup>
+              ))}
             </select>
+            <label className="flex items-center gap-1.5 text-xs text-gray-500 font-medium cursor-pointer" title="Move up or down a level automatically based on your recent answers">
+              <input
+                type="checkbox"
+                checked={userDoc?.autoLevel ?? false}
+                onChange={(e) => handleAutoLevelChange(e.target.checked)}
+                className="accent-amber-400"
+              />
+              Auto
+            </label>
+            {isSpeechSupported() && (
+              <>
+                <select
+                  value={listeningSettings.rate}
+                  onChange={(e) => handleListeningChange({ rate: Number(e.target.value) })}
+                  title="Speech speed"
+                  className="text-xs text-gray-500 border border-gray-200 rounded-lg px-2 py-2 bg-white focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all cursor-pointer font-medium"
+                >
+                  {SPEECH_RATES.map(rate => (
+                    <option key={rate} value={rate}>🔊 {rate}×</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1.5 text-xs text-gray-500 font-medium cursor-pointer" title="Hide the question text until you have answered">
+                  <input
+                    type="checkbox"
+                    checked={listeningSettings.listenOnly}
+                    onChange={(e) => handleListeningChange({ listenOnly: e.target.checked })}
+                    className="accent-amber-400"
+                  />
+                  Listen-only
+                </label>
+              </>
+            )}
             <button
               onClick={handleSignOut}
               className="text-sm text-gray-600 hover:text-gray-900 transition-colors font-medium"
@@ -252,99 +808,264 @@ function App() {
       </header>
 
       <main className="max-w-4xl mx-auto px-0 md:px-6 py-10">
-        {unansweredQuestions ? (
-          <div className="mb-8 p-5 bg-amber-50/50 border border-amber-200/50 rounded-xl">
-            <p className="text-amber-900 font-medium">
-              👇 Answer the question below
-            </p>
-          </div>
-        ) : (
-          <div className="px-4">
+        {apiError && (
+          <div className="mx-4 md:mx-0 mb-8 p-5 bg-red-50 border border-red-200 rounded-xl flex justify-between items-center gap-4">
+            <p className="text-red-900 font-medium">{apiError}</p>
             <button
-              onClick={handleNewQuestion}
-              disabled={generatingQuestion}
-              className="mb-8 w-full bg-amber-400 hover:bg-amber-500 text-gray-900 py-4 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold text-base transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10 flex items-center justify-center gap-2"
+              onClick={() => setApiError(null)}
+              className="text-sm text-red-700 hover:text-red-900 transition-colors font-medium"
             >
-              {generatingQuestion && (
-                <svg className="animate-spin h-5 w-5 text-gray-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-              )}
-              {generatingQuestion ? 'Generating Question...' : 'New Question'}
+              Dismiss
             </button>
           </div>
         )}
 
-        <div className="space-y-4">
-          {userDoc?.questions
-            .slice()
-            .reverse()
-            .map((question, index, reversedQuestions) => {
-              const questionDate = question.askedAt ? new Date(question.askedAt) : null;
-              const prevQuestion = index > 0 ? reversedQuestions[index - 1] : null;
-              const prevQuestionDate = prevQuestion?.askedAt ? new Date(prevQuestion.askedAt) : null;
-              const now = new Date();
-
-              // Check if more than 48 hours between current question and now (for the first/latest question)
-              const hoursSinceLatest = index === 0 && questionDate
-                ? (now.getTime() - questionDate.getTime()) / (1000 * 60 * 60)
-                : null;
-
-              // Check if more than 48 hours between two questions
-              const hoursBetween = questionDate && prevQuestionDate
-                ? (questionDate.getTime() - prevQuestionDate.getTime()) / (1000 * 60 * 60)
-                : null;
-
-              const formatDate = (date: Date) => {
-                return date.toLocaleDateString('en-US', {
-                  year: 'numeric',
-                  month: 'short',
-                  day: 'numeric',
-                  hour: '2-digit',
-                  minute: '2-digit'
-                });
-              };
-
-              return (
-                <div key={question.id}>
-                  {/* Divider between current question and now (if > 48hrs) */}
-                  {hoursSinceLatest !== null && hoursSinceLatest > 48 && (
-                    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl text-center">
-                      <p className="text-sm text-gray-500 font-medium">
-                        😢 No questions between {formatDate(questionDate!)} and {formatDate(now)}
-                      </p>
-                    </div>
-                  )}
-
-                  {/* Divider between two questions (if > 48hrs) */}
-                  {hoursBetween !== null && hoursBetween > 48 && (
-                    <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl text-center">
-                      <p className="text-sm text-gray-500 font-medium">
-                        😢 No questions between {formatDate(prevQuestionDate!)} and {formatDate(questionDate!)}
-                      </p>
-                    </div>
-                  )}
+        {levelSuggestion && (
+          <div className="mx-4 md:mx-0 mb-8 p-5 bg-emerald-50/50 border border-emerald-200/50 rounded-xl">
+            <p className="text-emerald-900 font-medium">
+              {levelSuggestion.reason === 'promotion'
+                ? `📈 You got ${Math.round(levelSuggestion.accuracy * 100)}% of your last ${levelSuggestion.sampleSize} questions right on the first try. Move up to ${getLevelLabel(levelSuggestion.to, targetLanguage)}?`
+                : `📉 Only ${Math.round(levelSuggestion.accuracy * 100)}% of your last ${levelSuggestion.sampleSize} questions were right on the first try. Step back to ${getLevelLabel(levelSuggestion.to, targetLanguage)}?`}
+            </p>
+            <div className="mt-3 flex gap-4">
+              <button
+                onClick={() => applyLevelChange(levelSuggestion.to, levelSuggestion.reason)}
+                className="text-sm text-emerald-800 hover:text-emerald-950 transition-colors font-semibold"
+              >
+                Switch to {getLevelLabel(levelSuggestion.to, targetLanguage)}
+              </button>
+              <button
+                onClick={handleDismissLevelSuggestion}
+                className="text-sm text-gray-600 hover:text-gray-900 transition-colors font-medium"
+              >
+                Not now
+              </button>
+            </div>
+          </div>
+        )}
 
+        {progressQuestions ? (
+          <>
+            <ProgressDashboard questions={progressQuestions} />
+            <div className="px-4 md:px-0 mt-6">
+              <ReminderSettings
+                reminders={userDoc?.reminders}
+                supported={isPushSupported()}
+                onEnable={handleEnableReminders}
+                onDisable={handleDisableReminders}
+              />
+            </div>
+            <div className="px-4 md:px-0 mt-6">
+              <FeedbackLanguageSettings
+                support={userDoc?.support}
+                targetLanguageName={languagePack.name}
+                onChange={handleSupportChange}
+              />
+            </div>
+            <div className="px-4 md:px-0 mt-6">
+              <DataSettings onExport={handleExport} onImport={handleImport} />
+            </div>
+          </>
+        ) : vocabulary ? (
+          <VocabularyPage
+            entries={vocabulary.filter(e => getQuestionLanguage(e) === targetLanguage)}
+            languageName={languagePack.name}
+          />
+        ) : (
+          <>
+            {reviewQueue ? (
+              <div className="px-4 md:px-0">
+                <div className="mb-8 p-5 bg-sky-50/50 border border-sky-200/50 rounded-xl flex justify-between items-center">
+                  <p className="text-sky-900 font-medium">
+                    {currentReviewQuestion
+                      ? `🔁 Reviewing ${reviewQueue.length - reviewQuestions.length + 1} of ${reviewQueue.length}`
+                      : '🎉 All due questions reviewed'}
+                  </p>
+                  <button
+                    onClick={() => setReviewQueue(null)}
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors font-medium"
+                  >
+                    Exit Review
+                  </button>
+                </div>
+                {currentReviewQuestion && (
                   <QuestionCard
-                    question={question}
+                    key={currentReviewQuestion.id}
+                    question={currentReviewQuestion}
                     onAnswer={handleAnswer}
+                    onSpokenAnswer={handleSpokenAnswer}
                     onExplain={handleExplain}
                     onGenerateContext={handleGenerateContext}
-                    isExplaining={explainingQuestionId === question.id}
-                    isGeneratingContext={generatingContextId === question.id}
-                    isValidating={validatingQuestionId === question.id}
+                    onHint={handleHint}
+                    isLoadingHint={hintingQuestionId === currentReviewQuestion.id}
+                    hints={hints[currentReviewQuestion.id]}
+                    isExplaining={explainingQuestionId === currentReviewQuestion.id}
+                    isGeneratingContext={generatingContextId === currentReviewQuestion.id}
+                    streamingExplanation={explainingQuestionId === currentReviewQuestion.id ? streamingExplanation : undefined}
+                    streamingContext={generatingContextId === currentReviewQuestion.id ? streamingContext : undefined}
+                    isValidating={validatingQuestionId === currentReviewQuestion.id}
+                    pendingAnswers={pendingAnswers.filter(p => p.questionId === currentReviewQuestion.id)}
+                    voices={voices}
+                    speechRate={listeningSettings.rate}
+                    listenOnly={listeningSettings.listenOnly}
+                    isReviewing
                   />
-                </div>
-              );
-            })}
-          <div ref={questionsEndRef} />
-        </div>
+                )}
+              </div>
+            ) : unansweredQuestions ? (
+              <div className="mb-8 p-5 bg-amber-50/50 border border-amber-200/50 rounded-xl">
+                <p className="text-amber-900 font-medium">
+                  👇 Answer the question below
+                </p>
+              </div>
+            ) : (
+              <div className="px-4 mb-8 flex gap-3">
+                <button
+                  onClick={handleNewQuestion}
+                  disabled={generatingQuestion}
+                  className="flex-1 bg-amber-400 hover:bg-amber-500 text-gray-900 py-4 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold text-base transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10 flex items-center justify-center gap-2"
+                >
+                  {generatingQuestion && (
+                    <svg className="animate-spin h-5 w-5 text-gray-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                  )}
+                  {generatingQuestion ? 'Generating Question...' : 'New Question'}
+                </button>
+                <select
+                  value={userDoc?.questionKind || 'mixed'}
+                  onChange={(e) => handleQuestionKindChange(e.target.value as QuestionKind | 'mixed')}
+                  disabled={generatingQuestion}
+                  title="Kind of question"
+                  className="text-sm text-gray-900 border border-gray-900/10 rounded-xl px-4 bg-white focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all cursor-pointer font-medium shadow-sm disabled:opacity-50"
+                >
+                  <option value="mixed">Mixed</option>
+                  {QUESTION_KINDS.map(kind => (
+                    <option key={kind} value={kind}>{QUESTION_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                {dueCount > 0 && (
+                  <button
+                    onClick={handleStartReview}
+                    disabled={generatingQuestion}
+                    className="bg-white hover:bg-sky-50 text-gray-900 py-4 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold text-base transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10"
+                  >
+                    🔁 Review due ({dueCount})
+                  </button>
+                )}
+              </div>
+            )}
 
-        {userDoc?.questions.length === 0 && (
-          <div className="text-center py-16 text-gray-400">
-            <p className="text-base font-medium">No questions yet. Click "New Question" to get started!</p>
-          </div>
+            {!reviewQueue && userDoc && (
+              <PracticeFocusSettings
+                focus={userDoc.practiceFocus}
+                language={targetLanguage}
+                pack={languagePack}
+                disabled={generatingQuestion}
+                onChange={handlePracticeFocusChange}
+              />
+            )}
+
+            {!reviewQueue && userDoc?.mistakeStats && (
+              <MistakeStats stats={userDoc.mistakeStats} />
+            )}
+
+            {!reviewQueue && (
+              <div className="space-y-4">
+                {visibleQuestions
+                  .slice()
+                  .reverse()
+                  .map((question, index, reversedQuestions) => {
+                    const questionDate = question.askedAt ? new Date(question.askedAt) : null;
+                    const prevQuestion = index > 0 ? reversedQuestions[index - 1] : null;
+                    const prevQuestionDate = prevQuestion?.askedAt ? new Date(prevQuestion.askedAt) : null;
+                    const now = new Date();
+
+                    // Check if more than 48 hours between current question and now (for the first/latest question)
+                    const hoursSinceLatest = index === 0 && questionDate
+                      ? (now.getTime() - questionDate.getTime()) / (1000 * 60 * 60)
+                      : null;
+
+                    // Check if more than 48 hours between two questions
+                    const hoursBetween = questionDate && prevQuestionDate
+                      ? (questionDate.getTime() - prevQuestionDate.getTime()) / (1000 * 60 * 60)
+                      : null;
+
+                    const formatDate = (date: Date) => {
+                      return date.toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      });
+                    };
+
+                    return (
+                      <div key={question.id}>
+                        {/* Divider between current question and now (if > 48hrs) */}
+                        {hoursSinceLatest !== null && hoursSinceLatest > 48 && (
+                          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl text-center">
+                            <p className="text-sm text-gray-500 font-medium">
+                              😢 No questions between {formatDate(questionDate!)} and {formatDate(now)}
+                            </p>
+                          </div>
+                        )}
+
+                        {/* Divider between two questions (if > 48hrs) */}
+                        {hoursBetween !== null && hoursBetween > 48 && (
+                          <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-xl text-center">
+                            <p className="text-sm text-gray-500 font-medium">
+                              😢 No questions between {formatDate(prevQuestionDate!)} and {formatDate(questionDate!)}
+                            </p>
+                          </div>
+                        )}
+
+                        <QuestionCard
+                          question={question}
+                          onAnswer={handleAnswer}
+                          onSpokenAnswer={handleSpokenAnswer}
+                          onExplain={handleExplain}
+                          onGenerateContext={handleGenerateContext}
+                          onHint={handleHint}
+                          isLoadingHint={hintingQuestionId === question.id}
+                          hints={hints[question.id]}
+                          isExplaining={explainingQuestionId === question.id}
+                          isGeneratingContext={generatingContextId === question.id}
+                          streamingExplanation={explainingQuestionId === question.id ? streamingExplanation : undefined}
+                          streamingContext={generatingContextId === question.id ? streamingContext : undefined}
+                          isValidating={validatingQuestionId === question.id}
+                          pendingAnswers={pendingAnswers.filter(p => p.questionId === question.id)}
+                          voices={voices}
+                          speechRate={listeningSettings.rate}
+                          listenOnly={listeningSettings.listenOnly}
+                        />
+                      </div>
+                    );
+                  })}
+                <div ref={questionsEndRef} />
+              </div>
+            )}
+
+            {!reviewQueue && hasMoreQuestions && (
+              <div className="px-4 md:px-0">
+                <button
+                  onClick={handleLoadMoreQuestions}
+                  disabled={loadingMoreQuestions}
+                  className="w-full py-3 text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loadingMoreQuestions ? 'Loading...' : 'Load older questions'}
+                </button>
+              </div>
+            )}
+
+            {!reviewQueue && visibleQuestions.length === 0 && (
+              <div className="text-center py-16 text-gray-400">
+                <p className="text-base font-medium">No questions yet. Click "New Question" to get started!</p>
+              </div>
+            )}
+          </>
         )}
       </main>
     </div>
@@ -1,5 +1,6 @@
 import { signInWithPopup } from 'firebase/auth';
 import { auth, googleProvider } from '../firebase/config';
+import { LANGUAGE_PACKS, TARGET_LANGUAGES } from '../languages';
 
 export default function Auth() {
   const handleGoogleSignIn = async () => {
@@ -15,10 +16,10 @@ export default function Auth() {
       <div className="max-w-md w-full space-y-10 p-10 bg-white rounded-2xl shadow-sm border border-gray-100">
         <div>
           <h2 className="text-center text-4xl font-bold tracking-tight text-gray-900">
-            Dutch Learning
+            Language Learning
           </h2>
           <p className="mt-3 text-center text-sm text-gray-500 font-medium">
-            Sign in to start learning Dutch
+            Sign in to start learning {TARGET_LANGUAGES.map(code => LANGUAGE_PACKS[code].name).join(', ').replace(/, ([^,]*)$/, ' or $1')}
           </p>
         </div>
         <button
@@ -0,0 +1,87 @@
+import { useRef, useState } from 'react';
+import { ExportFormat } from '../services/backup';
+import { ImportResult } from '../services/firestore';
+
+interface DataSettingsProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  onImport: (file: File) => Promise<ImportResult>;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; title: string }[] = [
+  { format: 'json', label: 'Backup (JSON)', title: 'Everything, for importing into this or another account' },
+  { format: 'csv', label: 'Spreadsheet (CSV)', title: 'One row per answer' },
+  { format: 'anki', label: 'Anki deck', title: 'Your corrected sentences with explanations, for File → Import in Anki' },
+];
+
+export default function DataSettings({ onExport, onImport }: DataSettingsProps) {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setMessage(null);
+    setError(null);
+    try {
+      setMessage(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again triggers another import
+    e.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      const { imported, skipped } = await onImport(file);
+      return `Imported ${imported} ${imported === 1 ? 'question' : 'questions'}${skipped > 0 ? `, skipped ${skipped} you already had` : ''}.`;
+    });
+  };
+
+  return (
+    <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-4">Your data</p>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-700">Export as</span>
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => run(async () => { await onExport(option.format); return null; })}
+              disabled={busy}
+              title={option.title}
+              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="px-4 py-2 bg-amber-400 hover:bg-amber-500 text-gray-900 text-sm font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-gray-900/10"
+          >
+            Import backup
+          </button>
+          <span className="text-xs text-gray-400">Questions you already have are kept as they are.</span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+        {message && <p className="text-sm text-emerald-700">{message}</p>}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { MultipleChoiceExercise, ReorderExercise } from '../types';
+
+interface ExerciseInputProps {
+  exercise: MultipleChoiceExercise | ReorderExercise;
+  onSubmit: (answer: string) => void;
+  isValidating: boolean;
+  previousAnswers: string[]; // Options already tried are disabled
+}
+
+const submitButtonClassName = 'w-full bg-amber-400 hover:bg-amber-500 text-gray-900 py-3.5 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10';
+
+function MultipleChoiceInput({ exercise, onSubmit, isValidating, previousAnswers }: ExerciseInputProps & { exercise: MultipleChoiceExercise }) {
+  return (
+    <div className="grid gap-3">
+      {exercise.options.map((option, index) => (
+        <button
+          key={index}
+          type="button"
+          onClick={() => onSubmit(option)}
+          disabled={isValidating || previousAnswers.includes(option)}
+          className="w-full text-left px-5 py-3.5 rounded-xl border border-gray-200 bg-white text-gray-900 font-medium hover:border-amber-400 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed disabled:line-through transition-all"
+        >
+          <span className="text-gray-400 mr-3">{String.fromCharCode(65 + index)}</span>
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ReorderInput({ exercise, onSubmit, isValidating }: ExerciseInputProps & { exercise: ReorderExercise }) {
+  // Indexes into exercise.words, in the order the learner picked them
+  const [picked, setPicked] = useState<number[]>([]);
+  const remaining = exercise.words.map((word, index) => ({ word, index })).filter(w => !picked.includes(w.index));
+
+  return (
+    <div className="space-y-4">
+      <div className="min-h-14 p-3 flex flex-wrap gap-2 rounded-xl border border-dashed border-gray-300 bg-gray-50">
+        {picked.length === 0 && <p className="text-sm text-gray-400 self-center px-1">Tap the words in the right order</p>}
+        {picked.map(index => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setPicked(picked.filter(i => i !== index))}
+            disabled={isValidating}
+            className="px-3 py-1.5 rounded-lg bg-amber-100 border border-amber-300 text-gray-900 font-medium"
+          >
+            {exercise.words[index]}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {remaining.map(({ word, index }) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setPicked([...picked, index])}
+            disabled={isValidating}
+            className="px-3 py-1.5 rounded-lg bg-white border border-gray-200 text-gray-900 font-medium hover:border-amber-400 transition-colors"
+          >
+            {word}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={() => onSubmit(picked.map(i => exercise.words[i]).join(' '))}
+          disabled={remaining.length > 0 || isValidating}
+          className={submitButtonClassName}
+        >
+          {isValidating ? 'Evaluating...' : 'Submit Answer'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setPicked([])}
+          disabled={picked.length === 0 || isValidating}
+          className="px-5 text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50 transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Answer input for exercises that don't need a text box
+export default function ExerciseInput(props: ExerciseInputProps) {
+  const { exercise } = props;
+  if (exercise.kind === 'multiple-choice') {
+    return <MultipleChoiceInput {...props} exercise={exercise} />;
+  }
+  return <ReorderInput {...props} exercise={exercise} />;
+}
@@ -0,0 +1,44 @@
+import { SupportLanguage, SupportLanguageSettings } from '../types';
+import { DEFAULT_SUPPORT_SETTINGS, SUPPORT_LANGUAGES, SUPPORT_LANGUAGE_NAMES } from '../languages';
+
+interface FeedbackLanguageSettingsProps {
+  support?: SupportLanguageSettings;
+  targetLanguageName: string;
+  onChange: (support: SupportLanguageSettings) => void;
+}
+
+export default function FeedbackLanguageSettings({ support, targetLanguageName, onChange }: FeedbackLanguageSettingsProps) {
+  const settings = support || DEFAULT_SUPPORT_SETTINGS;
+
+  return (
+    <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-4">Feedback language</p>
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Explain in
+          <select
+            value={support ? settings.language : ''}
+            onChange={(e) => onChange({ ...settings, language: e.target.value as SupportLanguage })}
+            className="px-2 py-1 border border-gray-200 rounded-lg text-gray-900 bg-white"
+          >
+            {/* Until a language is picked, explanations are in the target language when the level allows it */}
+            {!support && <option value="" disabled>{targetLanguageName} or English</option>}
+            {SUPPORT_LANGUAGES.map(code => (
+              <option key={code} value={code}>{SUPPORT_LANGUAGE_NAMES[code]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer" title={`Explanations in ${targetLanguageName} with a translation below`}>
+          <input
+            type="checkbox"
+            checked={settings.showBoth}
+            onChange={(e) => onChange({ ...settings, showBoth: e.target.checked })}
+            className="accent-amber-400"
+          />
+          Show in both
+        </label>
+      </div>
+      <p className="mt-3 text-xs text-gray-400">Applies to new answers, explanations and context conversations.</p>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { MistakeStats as MistakeStatsType } from '../types';
+import { MISTAKE_CATEGORY_LABELS, getRecurringCategories } from '../services/mistakes';
+
+interface MistakeStatsProps {
+  stats: MistakeStatsType;
+}
+
+export default function MistakeStats({ stats }: MistakeStatsProps) {
+  const categories = getRecurringCategories(stats);
+  if (categories.length === 0) return null;
+
+  const maxCount = categories[0].count;
+
+  return (
+    <details className="mx-4 md:mx-0 mb-8 p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+      <summary className="text-sm text-gray-600 hover:text-gray-900 font-medium cursor-pointer transition-colors">
+        📈 Recurring mistakes
+      </summary>
+      <ul className="mt-4 space-y-3">
+        {categories.map(({ category, count }) => (
+          <li key={category}>
+            <div className="flex justify-between text-sm text-gray-700 mb-1">
+              <span>{MISTAKE_CATEGORY_LABELS[category]}</span>
+              <span className="font-medium text-gray-900">{count}</span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-red-300 rounded-full"
+                style={{ width: `${(count / maxCount) * 100}%` }}
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,81 @@
+import { PracticeFocus, PracticeTheme, TargetLanguage } from '../types';
+import { LanguagePack } from '../languages';
+import { EMPTY_PRACTICE_FOCUS, PRACTICE_THEMES, PRACTICE_THEME_LABELS } from '../services/practice';
+
+interface PracticeFocusSettingsProps {
+  focus?: PracticeFocus;
+  language: TargetLanguage;
+  pack: LanguagePack;
+  disabled?: boolean;
+  onChange: (focus: PracticeFocus) => void;
+}
+
+function toggle<T>(items: T[], item: T): T[] {
+  return items.includes(item) ? items.filter(i => i !== item) : [...items, item];
+}
+
+function chipClassName(selected: boolean): string {
+  return `text-sm px-3 py-1.5 rounded-full border transition-colors font-medium disabled:opacity-50 ${
+    selected
+      ? 'bg-amber-400 border-amber-400 text-gray-900'
+      : 'bg-white border-gray-200 text-gray-600 hover:border-amber-300'
+  }`;
+}
+
+export default function PracticeFocusSettings({ focus, language, pack, disabled, onChange }: PracticeFocusSettingsProps) {
+  const settings = focus || EMPTY_PRACTICE_FOCUS;
+  const grammar = settings.grammar[language] || [];
+  const selectedCount = settings.themes.length + grammar.length;
+
+  const handleThemeClick = (theme: PracticeTheme) => {
+    onChange({ ...settings, themes: toggle(settings.themes, theme) });
+  };
+
+  const handleGrammarClick = (id: string) => {
+    onChange({ ...settings, grammar: { ...settings.grammar, [language]: toggle(grammar, id) } });
+  };
+
+  return (
+    <details className="px-4 md:px-0 mb-8">
+      <summary className="text-sm text-gray-600 hover:text-gray-900 cursor-pointer font-medium select-none">
+        🎯 Practice focus{selectedCount > 0 ? ` (${selectedCount} selected)` : ': anything'}
+      </summary>
+      <div className="mt-3 p-5 bg-white border border-gray-100 rounded-xl shadow-sm space-y-4">
+        <div>
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Themes</p>
+          <div className="flex flex-wrap gap-2">
+            {PRACTICE_THEMES.map(theme => (
+              <button
+                key={theme}
+                onClick={() => handleThemeClick(theme)}
+                disabled={disabled}
+                aria-pressed={settings.themes.includes(theme)}
+                className={chipClassName(settings.themes.includes(theme))}
+              >
+                {PRACTICE_THEME_LABELS[theme]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">{pack.name} grammar</p>
+          <div className="flex flex-wrap gap-2">
+            {pack.grammarFocuses.map(grammarFocus => (
+              <button
+                key={grammarFocus.id}
+                onClick={() => handleGrammarClick(grammarFocus.id)}
+                disabled={disabled}
+                aria-pressed={grammar.includes(grammarFocus.id)}
+                title={grammarFocus.description}
+                className={chipClassName(grammar.includes(grammarFocus.id))}
+              >
+                {grammarFocus.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-gray-400">Each new question picks one of the selected themes and grammar points. Select nothing to practise anything.</p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,118 @@
+import { Question } from '../types';
+import { getHeatmapWeeks, getProgressStats } from '../services/progress';
+
+interface ProgressDashboardProps {
+  questions: Question[];
+}
+
+const HEATMAP_WEEKS = 26;
+const RECENT_DAYS = 14;
+const RECENT_WEEKS = 12;
+
+// Tailwind classes from no activity to busy days
+function heatmapColor(questions: number): string {
+  if (questions === 0) return 'bg-gray-100';
+  if (questions < 3) return 'bg-amber-200';
+  if (questions < 6) return 'bg-amber-300';
+  if (questions < 10) return 'bg-amber-400';
+  return 'bg-amber-500';
+}
+
+function formatDay(dateKey: string) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function ProgressDashboard({ questions }: ProgressDashboardProps) {
+  const stats = getProgressStats(questions);
+  const heatmap = getHeatmapWeeks(stats.activity, HEATMAP_WEEKS);
+  const recentDays = stats.activity.slice(-RECENT_DAYS);
+  const maxQuestionsPerDay = Math.max(1, ...recentDays.map(d => d.questions));
+  const recentWeeks = stats.firstTryAccuracy.slice(-RECENT_WEEKS);
+
+  const summary = [
+    { label: 'Current streak', value: `${stats.currentStreak} ${stats.currentStreak === 1 ? 'day' : 'days'}` },
+    { label: 'Longest streak', value: `${stats.longestStreak} ${stats.longestStreak === 1 ? 'day' : 'days'}` },
+    { label: 'Avg. attempts', value: stats.averageAttempts ? stats.averageAttempts.toFixed(1) : '–' },
+    { label: 'Days practiced', value: String(stats.activity.length) },
+  ];
+
+  return (
+    <div className="px-4 md:px-0 space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {summary.map(item => (
+          <div key={item.label} className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{item.label}</p>
+            <p className="mt-2 text-2xl font-bold text-gray-900">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-4">Activity</p>
+        <div className="flex gap-1 overflow-x-auto">
+          {heatmap.map((week, weekIndex) => (
+            <div key={weekIndex} className="flex flex-col gap-1">
+              {week.map((day, dayIndex) => (
+                <div
+                  key={dayIndex}
+                  title={day ? `${formatDay(day.date)}: ${day.questions} questions` : undefined}
+                  className={`w-3 h-3 rounded-sm ${day ? heatmapColor(day.questions) : 'bg-transparent'}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-4">Questions per day</p>
+        {recentDays.length === 0 ? (
+          <p className="text-sm text-gray-400">No answers yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {recentDays.map(day => (
+              <li key={day.date} className="flex items-center gap-3 text-sm text-gray-700">
+                <span className="w-16 shrink-0 text-gray-500">{formatDay(day.date)}</span>
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-amber-400 rounded-full"
+                    style={{ width: `${(day.questions / maxQuestionsPerDay) * 100}%` }}
+                  />
+                </div>
+                <span className="w-6 text-right font-medium text-gray-900">{day.questions}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-4">First-try accuracy per week</p>
+        {recentWeeks.length === 0 ? (
+          <p className="text-sm text-gray-400">No answers yet.</p>
+        ) : (
+          <div className="flex items-end gap-2 h-32">
+            {recentWeeks.map(week => (
+              <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                <span className="text-xs text-gray-500">{Math.round(week.accuracy * 100)}%</span>
+                <div
+                  title={`Week of ${formatDay(week.weekStart)}: ${week.count} questions${week.assisted > 0 ? `, ${week.assisted} with hints` : ''}`}
+                  className="w-full bg-emerald-300 rounded-t"
+                  style={{ height: `${Math.max(week.accuracy * 100, 2)}%` }}
+                />
+                <span className="text-[10px] text-gray-400 whitespace-nowrap">{formatDay(week.weekStart)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {recentWeeks.some(week => week.assisted > 0) && (
+          <p className="mt-3 text-xs text-gray-400">Answers given with hints don't count as first-try correct.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,68 @@
 import { useState, useEffect, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Question } from '../types';
+import { PendingAnswer, Question } from '../types';
+import { MISTAKE_CATEGORY_LABELS } from '../services/mistakes';
+import RecordButton from './RecordButton';
+import ExerciseInput from './ExerciseInput';
+import { QUESTION_KIND_LABELS, getQuestionKind } from '../services/exercises';
+import { PRACTICE_THEME_LABELS, getGrammarFocus } from '../services/practice';
+import { HINT_KINDS, HINT_LABELS } from '../services/hints';
+import { DEFAULT_SPEECH_RATE, getVoicesForLanguage, isSpeechSupported, parseConversation, speak, speakConversation, stopSpeaking } from '../services/speech';
+import { getLanguagePack, getQuestionLanguage, splitTranslation } from '../languages';
 
 interface QuestionCardProps {
   question: Question;
   onAnswer: (questionId: string, answer: string) => void;
+  onSpokenAnswer: (questionId: string, recording: Blob) => void;
   onExplain: (questionId: string) => void;
   onGenerateContext: (questionId: string) => void;
+  onHint: (questionId: string) => void;
   isExplaining: boolean;
+  isLoadingHint: boolean;
+  hints?: string[]; // Revealed so far, in HINT_KINDS order
   isGeneratingContext: boolean;
+  streamingExplanation?: string;
+  streamingContext?: string;
   isValidating: boolean;
+  isReviewing?: boolean;
+  pendingAnswers?: PendingAnswer[];
+  voices?: SpeechSynthesisVoice[];
+  speechRate?: number;
+  listenOnly?: boolean;
 }
 
 export default function QuestionCard({
   question,
   onAnswer,
+  onSpokenAnswer,
   onExplain,
   onGenerateContext,
+  onHint,
   isExplaining,
+  isLoadingHint,
+  hints = [],
   isGeneratingContext,
+  streamingExplanation,
+  streamingContext,
   isValidating,
+  isReviewing = false,
+  pendingAnswers = [],
+  voices = [],
+  speechRate = DEFAULT_SPEECH_RATE,
+  listenOnly = false,
 }: QuestionCardProps) {
   const [answer, setAnswer] = useState('');
   const [showExplanation, setShowExplanation] = useState(false);
   const [showContext, setShowContext] = useState(false);
+  const [playing, setPlaying] = useState<'question' | 'context' | null>(null);
   const prevExplanationRef = useRef<string | undefined>(undefined);
   const prevContextRef = useRef<string | undefined>(undefined);
   const wasExplainingRef = useRef(false);
   const wasGeneratingContextRef = useRef(false);
+  const answerInputRef = useRef<HTMLInputElement | HTMLTextAreaElement | null>(null);
+  const pack = getLanguagePack(getQuestionLanguage(question));
+  const languageVoices = getVoicesForLanguage(voices, pack);
 
   // Reset state when question changes
   useEffect(() => {
@@ -38,6 +72,8 @@ export default function QuestionCard({
     prevContextRef.current = question.contextConversation;
     wasExplainingRef.current = false;
     wasGeneratingContextRef.current = false;
+    setPlaying(null);
+    return () => stopSpeaking();
   }, [question.id]);
 
   // Track when we're generating context
@@ -104,6 +140,35 @@ export default function QuestionCard({
     }
   }, [isValidating, question.answers, answer]);
 
+  const handlePlay = async (target: 'question' | 'context') => {
+    if (playing === target) {
+      stopSpeaking();
+      setPlaying(null);
+      return;
+    }
+
+    stopSpeaking();
+    setPlaying(target);
+    if (target === 'question') {
+      await speak(question.question, { voice: languageVoices[0], lang: pack.speech.lang, rate: speechRate });
+    } else {
+      await speakConversation(parseConversation(splitTranslation(ensureString(question.contextConversation)).original), languageVoices, speechRate, pack.speech.lang);
+    }
+    setPlaying(current => (current === target ? null : current));
+  };
+
+  // Insert at the cursor so letters like "ß" or "ñ" can be typed without a matching keyboard
+  const insertCharacter = (character: string) => {
+    const input = answerInputRef.current;
+    const start = input?.selectionStart ?? answer.length;
+    const end = input?.selectionEnd ?? answer.length;
+    setAnswer(answer.slice(0, start) + character + answer.slice(end));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + character.length, start + character.length);
+    });
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return null;
     const date = new Date(dateString);
@@ -124,41 +189,213 @@ export default function QuestionCard({
     return String(value);
   };
 
+  // "Show both" texts have a translation after a separator line, shown below the original
+  const renderWithTranslation = (text: string) => {
+    const { original, translation } = splitTranslation(text);
+    return (
+      <>
+        <ReactMarkdown remarkPlugins={[remarkGfm]}>{original}</ReactMarkdown>
+        {translation && (
+          <div className="mt-3 pt-3 border-t border-gray-200 text-gray-500">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{translation}</ReactMarkdown>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  const answers = question.answers || [];
+  let lastCorrectIndex = -1;
+  answers.forEach((a, index) => {
+    if (a.isCorrect) lastCorrectIndex = index;
+  });
+  // During a review, answers from earlier sessions are hidden so they don't give the answer away
+  const firstVisibleAnswerIndex = isReviewing ? lastCorrectIndex + 1 : 0;
+  const visibleAnswers = answers
+    .map((answerItem, index) => ({ answerItem, index }))
+    .slice(firstVisibleAnswerIndex);
+  const lastAnswer = answers[answers.length - 1];
+  // Queued answers have to be validated before another attempt makes sense
+  const hasPendingAnswers = pendingAnswers.length > 0;
+  // In listen-only mode the text stays hidden until the question has been answered
+  const hideText = listenOnly && visibleAnswers.length === 0 && !hasPendingAnswers;
+  const canSpeak = isSpeechSupported();
+  const kind = getQuestionKind(question);
+  const exercise = question.exercise;
+  const grammarFocus = getGrammarFocus(pack, question.grammarFocus);
+  // Choosing an option or ordering tiles needs no hints; the ladder stops once the answer is correct
+  const canTakeHint = (kind === 'open' || kind === 'translation' || kind === 'cloze')
+    && !hideText
+    && !hasPendingAnswers
+    && !(visibleAnswers.length > 0 && lastAnswer.isCorrect)
+    && hints.length < HINT_KINDS.length;
+
+  // Input for the kind of question: option buttons, word tiles, a single word or free text
+  const renderAnswerInput = (isRetry: boolean) => {
+    if (exercise?.kind === 'multiple-choice' || exercise?.kind === 'reorder') {
+      return (
+        <ExerciseInput
+          key={answers.length}
+          exercise={exercise}
+          onSubmit={(value) => onAnswer(question.id, value)}
+          isValidating={isValidating}
+          previousAnswers={visibleAnswers.map(({ answerItem }) => answerItem.answer)}
+        />
+      );
+    }
+
+    const inputClassName = 'w-full px-4 py-3 border border-gray-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all bg-white text-gray-900 placeholder-gray-400 disabled:opacity-60 disabled:cursor-not-allowed';
+    const placeholder = kind === 'translation'
+      ? `Type your ${pack.name} translation...`
+      : isRetry ? `Type another answer in ${pack.name}...` : `Type your answer in ${pack.name}...`;
+
+    return (
+      <form onSubmit={handleSubmit}>
+        {exercise?.kind === 'cloze' ? (
+          <>
+            <input
+              ref={(el) => { answerInputRef.current = el; }}
+              type="text"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              placeholder="Missing word..."
+              disabled={isValidating}
+              className={inputClassName}
+              autoCorrect="off"
+              autoCapitalize="off"
+              spellCheck="false"
+            />
+            {exercise.hint && <p className="mt-2 text-sm text-gray-500">Hint: {exercise.hint}</p>}
+          </>
+        ) : (
+          <textarea
+            ref={(el) => { answerInputRef.current = el; }}
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder={placeholder}
+            disabled={isValidating}
+            className={inputClassName}
+            rows={4}
+            autoCorrect="off"
+            spellCheck="false"
+          />
+        )}
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {pack.specialCharacters.map(character => (
+            <button
+              key={character}
+              type="button"
+              onClick={() => insertCharacter(character)}
+              disabled={isValidating}
+              className="min-w-[2rem] px-2 py-1 text-sm text-gray-700 border border-gray-200 rounded-lg bg-white hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              {character}
+            </button>
+          ))}
+        </div>
+        <button
+          type="submit"
+          disabled={!answer.trim() || isValidating}
+          className="mt-4 w-full bg-amber-400 hover:bg-amber-500 text-gray-900 py-3.5 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10 flex items-center justify-center gap-2"
+        >
+          {isValidating && (
+            <svg className="animate-spin h-5 w-5 text-gray-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+          )}
+          {isValidating ? 'Evaluating...' : isRetry ? 'Submit Another Answer' : 'Submit Answer'}
+        </button>
+        {/* Speaking makes sense for sentences, not for single words */}
+        {(kind === 'open' || kind === 'translation') && (
+          <RecordButton onRecorded={(recording) => onSpokenAnswer(question.id, recording)} disabled={isValidating} />
+        )}
+      </form>
+    );
+  };
+
   return (
     <div className="bg-white rounded-none md:rounded-2xl shadow-sm border-x-0 md:border-x border-t border-b border-gray-100 p-4 md:p-8 mb-6 hover:shadow-md transition-shadow duration-200">
       <div className="mb-6">
+        {isReviewing && (
+          <p className="inline-block text-xs px-3 py-1 mb-3 mr-2 rounded-full font-medium bg-sky-50 text-sky-700">
+            🔁 Review
+          </p>
+        )}
+        {kind !== 'open' && (
+          <p className="inline-block text-xs px-3 py-1 mb-3 mr-2 rounded-full font-medium bg-amber-50 text-amber-700">
+            {QUESTION_KIND_LABELS[kind]}
+          </p>
+        )}
+        {question.theme && (
+          <p className="inline-block text-xs px-3 py-1 mb-3 mr-2 rounded-full font-medium bg-gray-50 text-gray-600">
+            {PRACTICE_THEME_LABELS[question.theme]}
+          </p>
+        )}
+        {grammarFocus && (
+          <p className="inline-block text-xs px-3 py-1 mb-3 mr-2 rounded-full font-medium bg-violet-50 text-violet-700" title={grammarFocus.description}>
+            {grammarFocus.label}
+          </p>
+        )}
         {question.askedAt && (
           <p className="text-xs text-gray-400 mb-3 font-medium tracking-wide uppercase">
             {formatDate(question.askedAt)}
           </p>
         )}
-        <div className="text-xl font-semibold text-gray-900 mb-4 prose prose-lg max-w-none leading-relaxed">
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>
-            {ensureString(question.question)}
-          </ReactMarkdown>
+        <div className="flex items-start gap-3 mb-4">
+          {hideText ? (
+            <p className="flex-1 text-xl font-semibold text-gray-400 leading-relaxed">
+              🎧 Listen to the question and answer it
+            </p>
+          ) : (
+            <div className="flex-1 text-xl font-semibold text-gray-900 prose prose-lg max-w-none leading-relaxed">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                {ensureString(question.question)}
+              </ReactMarkdown>
+            </div>
+          )}
+          {canSpeak && (
+            <button
+              onClick={() => handlePlay('question')}
+              title={playing === 'question' ? 'Stop' : 'Listen'}
+              className="shrink-0 text-lg px-3 py-1.5 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+            >
+              {playing === 'question' ? '⏹' : '🔊'}
+            </button>
+          )}
         </div>
 
         {/* Show context conversation if it exists */}
         {question.contextConversation && (
           <div className="mb-4">
-            <button
-              onClick={() => setShowContext(!showContext)}
-              className="text-sm text-gray-600 hover:text-gray-900 font-medium transition-colors"
-            >
-              {showContext ? 'Hide' : 'Show'} Context
-            </button>
-            {showContext && (
+            <div className="flex items-center gap-4">
+              {!hideText && (
+                <button
+                  onClick={() => setShowContext(!showContext)}
+                  className="text-sm text-gray-600 hover:text-gray-900 font-medium transition-colors"
+                >
+                  {showContext ? 'Hide' : 'Show'} Context
+                </button>
+              )}
+              {canSpeak && (
+                <button
+                  onClick={() => handlePlay('context')}
+                  className="text-sm text-gray-600 hover:text-gray-900 font-medium transition-colors"
+                >
+                  {playing === 'context' ? '⏹ Stop conversation' : '🔊 Play conversation'}
+                </button>
+              )}
+            </div>
+            {showContext && !hideText && (
               <div className="mt-3 p-5 bg-blue-50 rounded-xl border border-blue-100 text-sm text-gray-700 prose prose-sm max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {ensureString(question.contextConversation)}
-                </ReactMarkdown>
+                {renderWithTranslation(ensureString(question.contextConversation))}
               </div>
             )}
           </div>
         )}
 
         {/* Show explanation if it exists */}
-        {question.questionExplanation && (
+        {question.questionExplanation && !hideText && (
           <div className="mb-4">
             <button
               onClick={() => setShowExplanation(!showExplanation)}
@@ -168,9 +405,7 @@ export default function QuestionCard({
             </button>
             {showExplanation && (
               <div className="mt-3 p-5 bg-gray-50 rounded-xl border border-gray-100 text-sm text-gray-700 prose prose-sm max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {ensureString(question.questionExplanation)}
-                </ReactMarkdown>
+                {renderWithTranslation(ensureString(question.questionExplanation))}
               </div>
             )}
           </div>
@@ -194,7 +429,7 @@ export default function QuestionCard({
         )}
 
         {/* Show "Explain Question" button only after context exists */}
-        {!question.questionExplanation && (
+        {!question.questionExplanation && !hideText && (
           <button
             onClick={() => onExplain(question.id)}
             disabled={isExplaining}
@@ -209,41 +444,61 @@ export default function QuestionCard({
             {isExplaining ? 'Explaining...' : '💡 Explain Question'}
           </button>
         )}
-      </div>
 
-      {/* Show answer form only if no answers yet */}
-      {(!question.answers || question.answers.length === 0) && (
-        <form onSubmit={handleSubmit} className="mt-6">
-          <textarea
-            value={answer}
-            onChange={(e) => setAnswer(e.target.value)}
-            placeholder="Type your answer in Dutch..."
-            disabled={isValidating}
-            className="w-full px-4 py-3 border border-gray-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all bg-white text-gray-900 placeholder-gray-400 disabled:opacity-60 disabled:cursor-not-allowed"
-            rows={4}
-            autoCorrect="off"
-            spellCheck="false"
-          />
+        {/* Hints revealed one step at a time, each giving away a bit more */}
+        {hints.length > 0 && !hideText && (
+          <div className="mt-3 p-5 bg-violet-50 rounded-xl border border-violet-100 space-y-3">
+            {hints.map((hint, hintIndex) => (
+              <div key={hintIndex}>
+                <p className="text-xs font-semibold text-violet-700 uppercase tracking-wide mb-1">{HINT_LABELS[HINT_KINDS[hintIndex]]}</p>
+                <div className="text-sm text-gray-700 prose prose-sm max-w-none">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{hint}</ReactMarkdown>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {canTakeHint && (
           <button
-            type="submit"
-            disabled={!answer.trim() || isValidating}
-            className="mt-4 w-full bg-amber-400 hover:bg-amber-500 text-gray-900 py-3.5 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10 flex items-center justify-center gap-2"
+            onClick={() => onHint(question.id)}
+            disabled={isLoadingHint}
+            title={`Next hint: ${HINT_LABELS[HINT_KINDS[hints.length]]}. Answers given with hints are counted as assisted`}
+            className="mt-3 text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
           >
-            {isValidating && (
-              <svg className="animate-spin h-5 w-5 text-gray-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            {isLoadingHint && (
+              <svg className="animate-spin h-4 w-4 text-gray-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
             )}
-            {isValidating ? 'Evaluating...' : 'Submit Answer'}
+            {isLoadingHint ? 'Getting a hint...' : `🪜 ${hints.length === 0 ? 'Get a hint' : 'Next hint'} (${hints.length + 1}/${HINT_KINDS.length})`}
           </button>
-        </form>
+        )}
+
+        {/* Show context and explanation while they stream in */}
+        {isGeneratingContext && streamingContext && !hideText && (
+          <div className="mt-3 p-5 bg-blue-50 rounded-xl border border-blue-100 text-sm text-gray-700 prose prose-sm max-w-none">
+            {renderWithTranslation(streamingContext)}
+          </div>
+        )}
+        {isExplaining && streamingExplanation && !hideText && (
+          <div className="mt-3 p-5 bg-gray-50 rounded-xl border border-gray-100 text-sm text-gray-700 prose prose-sm max-w-none">
+            {renderWithTranslation(streamingExplanation)}
+          </div>
+        )}
+      </div>
+
+      {/* Show answer form only if no answers yet (or none in the current review) */}
+      {visibleAnswers.length === 0 && !hasPendingAnswers && (
+        <div className="mt-6">
+          {renderAnswerInput(false)}
+        </div>
       )}
 
       {/* Show all answers if they exist */}
-      {question.answers && question.answers.length > 0 && (
+      {visibleAnswers.length > 0 && (
         <div className="space-y-4 mt-6">
-          {question.answers.map((answerItem, index) => {
+          {visibleAnswers.map(({ answerItem, index }) => {
             const formatAnswerDate = (dateString: string) => {
               const date = new Date(dateString);
               return date.toLocaleDateString('en-US', {
@@ -258,7 +513,9 @@ export default function QuestionCard({
               <div key={index} className="space-y-3">
                 <div className="pb-3 border-b border-gray-100">
                   <div className="flex justify-between items-start mb-2">
-                    <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Answer {index + 1}</p>
+                    <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">
+                      Answer {index + 1}{answerItem.pronunciation && ' · 🎤 Spoken'}{!!answerItem.hintsUsed && ` · 🪜 ${answerItem.hintsUsed} ${answerItem.hintsUsed === 1 ? 'hint' : 'hints'}`}
+                    </p>
                     <p className="text-xs text-gray-400">{formatAnswerDate(answerItem.answeredAt)}</p>
                   </div>
                   <p className="text-gray-900 text-base leading-relaxed">{answerItem.answer}</p>
@@ -273,7 +530,23 @@ export default function QuestionCard({
                     {answerItem.isCorrect ? '🎉 Correct' : '😢 Incorrect'}
                   </p>
 
-                  {answerItem.mistakes && answerItem.mistakes !== 'none' && (
+                  {answerItem.mistakeDetails && answerItem.mistakeDetails.length > 0 ? (
+                    <div className="mt-4">
+                      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Mistakes</p>
+                      <ul className="space-y-2">
+                        {answerItem.mistakeDetails.map((mistake, mistakeIndex) => (
+                          <li key={mistakeIndex} className="text-sm text-gray-700 flex flex-wrap items-center gap-2">
+                            <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-white/70 text-gray-600 border border-gray-200">
+                              {MISTAKE_CATEGORY_LABELS[mistake.category]}
+                            </span>
+                            <span className="line-through text-gray-500">{mistake.span}</span>
+                            <span>→</span>
+                            <span className="font-medium text-gray-900">{mistake.correction}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : answerItem.mistakes && answerItem.mistakes !== 'none' && (
                     <div className="mt-4">
                       <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Mistakes</p>
                       <div className="text-sm text-gray-700 prose prose-sm max-w-none">
@@ -288,48 +561,63 @@ export default function QuestionCard({
                     <div className="mt-4">
                       <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Explanation</p>
                       <div className="text-sm text-gray-700 prose prose-sm max-w-none">
-                        <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                          {ensureString(answerItem.explanation)}
-                        </ReactMarkdown>
+                        {renderWithTranslation(ensureString(answerItem.explanation))}
                       </div>
                     </div>
                   )}
+
+                  {answerItem.pronunciation && (
+                    <div className="mt-4">
+                      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                        Pronunciation · {answerItem.pronunciation.score}/5
+                      </p>
+                      <p className="text-sm text-gray-700">{answerItem.pronunciation.summary}</p>
+                      {answerItem.pronunciation.issues.length > 0 && (
+                        <ul className="mt-2 space-y-1">
+                          {answerItem.pronunciation.issues.map((issue, issueIndex) => (
+                            <li key={issueIndex} className="text-sm text-gray-700">
+                              <span className="font-medium text-gray-900">{issue.word}</span>: {issue.issue}. {issue.tip}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             );
           })}
 
-          {/* Allow submitting another answer only if no correct answer exists */}
-          {!question.answers.some(a => a.isCorrect) && (
-            <form onSubmit={handleSubmit} className="mt-6 pt-4 border-t border-gray-100">
+          {/* Allow submitting another answer until the latest one is correct */}
+          {!lastAnswer.isCorrect && !hasPendingAnswers && (
+            <div className="mt-6 pt-4 border-t border-gray-100">
               <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Try Again</p>
-              <textarea
-                value={answer}
-                onChange={(e) => setAnswer(e.target.value)}
-                placeholder="Type another answer in Dutch..."
-                disabled={isValidating}
-                className="w-full px-4 py-3 border border-gray-200 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all bg-white text-gray-900 placeholder-gray-400 disabled:opacity-60 disabled:cursor-not-allowed"
-                rows={4}
-                autoCorrect="off"
-                spellCheck="false"
-              />
-              <button
-                type="submit"
-                disabled={!answer.trim() || isValidating}
-                className="mt-4 w-full bg-amber-400 hover:bg-amber-500 text-gray-900 py-3.5 px-6 rounded-xl disabled:opacity-50 disabled:cursor-not-allowed font-semibold transition-all duration-200 shadow-sm hover:shadow-md border border-gray-900/10 flex items-center justify-center gap-2"
-              >
-                {isValidating && (
-                  <svg className="animate-spin h-5 w-5 text-gray-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                )}
-                {isValidating ? 'Evaluating...' : 'Submit Another Answer'}
-              </button>
-            </form>
+              {renderAnswerInput(true)}
+            </div>
           )}
         </div>
       )}
+
+      {/* Show answers submitted offline that are waiting for validation */}
+      {hasPendingAnswers && (
+        <div className="space-y-4 mt-6">
+          {pendingAnswers.map((pending) => (
+            <div key={pending.id} className="space-y-3">
+              <div className="pb-3 border-b border-gray-100">
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-2">Submitted offline</p>
+                <p className="text-gray-900 text-base leading-relaxed">{pending.answer}</p>
+              </div>
+              <div className="p-5 rounded-xl border bg-gray-50 border-gray-200">
+                <p className="font-medium text-sm text-gray-600">
+                  {pending.validation
+                    ? '⏳ Pending. It will be saved once you are back online.'
+                    : '⏳ Pending validation. It will be checked once you are back online.'}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import { Recording, isRecordingSupported, startRecording } from '../services/recorder';
+
+interface RecordButtonProps {
+  onRecorded: (recording: Blob) => void;
+  disabled: boolean;
+}
+
+export default function RecordButton({ onRecorded, disabled }: RecordButtonProps) {
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+
+  // Release the microphone when the card goes away mid-recording
+  useEffect(() => {
+    return () => recordingRef.current?.cancel();
+  }, []);
+
+  if (!isRecordingSupported()) return null;
+
+  const handleClick = async () => {
+    setError(null);
+
+    if (recording) {
+      recordingRef.current = null;
+      setRecording(null);
+      onRecorded(await recording.stop());
+      return;
+    }
+
+    try {
+      const started = await startRecording((blob) => {
+        recordingRef.current = null;
+        setRecording(null);
+        onRecorded(blob);
+      });
+      recordingRef.current = started;
+      setRecording(started);
+    } catch (err) {
+      console.error('Error starting recording:', err);
+      setError('Microphone access was denied.');
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={disabled}
+        className={`w-full py-3 px-6 rounded-xl font-semibold transition-all duration-200 border disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 ${recording
+          ? 'bg-red-50 border-red-300 text-red-700 hover:bg-red-100'
+          : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+          }`}
+      >
+        {recording ? '⏹ Stop and submit' : '🎤 Answer by speaking'}
+      </button>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { ReminderSettings as ReminderSettingsData } from '../types';
+
+interface ReminderSettingsProps {
+  reminders?: ReminderSettingsData;
+  supported: boolean;
+  onEnable: (time: string, dailyGoal: number) => Promise<void>;
+  onDisable: () => Promise<void>;
+}
+
+const DEFAULT_TIME = '19:00';
+const DEFAULT_DAILY_GOAL = 3;
+
+export default function ReminderSettings({ reminders, supported, onEnable, onDisable }: ReminderSettingsProps) {
+  const [time, setTime] = useState(reminders?.time || DEFAULT_TIME);
+  const [dailyGoal, setDailyGoal] = useState(reminders?.dailyGoal || DEFAULT_DAILY_GOAL);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const enabled = !!reminders?.enabled;
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update reminders');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm">
+      <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide mb-4">Daily reminder</p>
+      {!supported ? (
+        <p className="text-sm text-gray-500">Reminders are not available in this browser.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Remind me at
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="px-2 py-1 border border-gray-200 rounded-lg text-gray-900"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              unless I answered
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={dailyGoal}
+                onChange={(e) => setDailyGoal(Math.max(1, Number(e.target.value) || 1))}
+                className="w-16 px-2 py-1 border border-gray-200 rounded-lg text-gray-900"
+              />
+              questions
+            </label>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => run(() => onEnable(time, dailyGoal))}
+              disabled={saving}
+              className="px-4 py-2 bg-amber-400 hover:bg-amber-500 text-gray-900 text-sm font-semibold rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-gray-900/10"
+            >
+              {enabled ? 'Save' : 'Turn on reminders'}
+            </button>
+            {enabled && (
+              <button
+                onClick={() => run(onDisable)}
+                disabled={saving}
+                className="text-sm text-gray-600 hover:text-gray-900 transition-colors font-medium"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { PartOfSpeech, VocabularyEntry } from '../types';
+import { PARTS_OF_SPEECH, PART_OF_SPEECH_LABELS, formatLemma, searchVocabulary } from '../services/vocabulary';
+
+interface VocabularyPageProps {
+  entries: VocabularyEntry[];
+  languageName: string;
+}
+
+export default function VocabularyPage({ entries, languageName }: VocabularyPageProps) {
+  const [search, setSearch] = useState('');
+  const [partOfSpeech, setPartOfSpeech] = useState<PartOfSpeech | null>(null);
+
+  const results = searchVocabulary(entries, search, partOfSpeech);
+  // Only offer filters for parts of speech that occur in the glossary
+  const usedPartsOfSpeech = PARTS_OF_SPEECH.filter(pos => entries.some(e => e.partOfSpeech === pos));
+
+  return (
+    <div className="px-4 md:px-0 space-y-6">
+      <div className="p-5 bg-white border border-gray-100 rounded-xl shadow-sm space-y-4">
+        <div className="flex justify-between items-baseline">
+          <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">Vocabulary</p>
+          <p className="text-xs text-gray-400">{entries.length} {entries.length === 1 ? 'word' : 'words'}</p>
+        </div>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={`Search in ${languageName} or English...`}
+          className="w-full px-4 py-2.5 border border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-transparent transition-all bg-white text-gray-900 placeholder-gray-400"
+          autoCorrect="off"
+          spellCheck="false"
+        />
+        {usedPartsOfSpeech.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {[null, ...usedPartsOfSpeech].map(pos => (
+              <button
+                key={pos || 'all'}
+                onClick={() => setPartOfSpeech(pos)}
+                className={`text-xs px-3 py-1 rounded-full font-medium transition-colors ${partOfSpeech === pos
+                  ? 'bg-amber-400 text-gray-900'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+              >
+                {pos ? PART_OF_SPEECH_LABELS[pos] : 'All'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          Words from your questions and answers will show up here once you have answered a question.
+        </p>
+      ) : results.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No words match your search.</p>
+      ) : (
+        <div className="bg-white border border-gray-100 rounded-xl shadow-sm divide-y divide-gray-100">
+          {results.map(entry => (
+            <div key={entry.id} className="px-5 py-3 flex flex-wrap items-baseline gap-x-3 gap-y-1">
+              <p className="font-semibold text-gray-900">{formatLemma(entry)}</p>
+              {entry.plural && <p className="text-sm text-gray-500">mv. {entry.plural}</p>}
+              <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-gray-100 text-gray-600">
+                {PART_OF_SPEECH_LABELS[entry.partOfSpeech]}
+              </span>
+              <p className="text-sm text-gray-700 flex-1">{entry.translation}</p>
+              <p className="text-xs text-gray-400" title="Questions this word appeared in">
+                {entry.sourceQuestionIds.length}×
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
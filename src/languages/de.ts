@@ -0,0 +1,48 @@
+import { LanguagePack } from './types';
+
+export const german: LanguagePack = {
+  code: 'de',
+  name: 'German',
+  nativeName: 'Deutsch',
+  flag: '🇩🇪',
+
+  prompts: {
+    mistakeCategories: {
+      'word-order': 'wrong word order, e.g. verb not in second position (V2) or not at the end of a subordinate clause',
+      article: 'wrong der/die/das article, wrong case of article or adjective ending',
+      'verb-conjugation': 'wrong verb form, tense, auxiliary (haben/sein) or separable prefix',
+      spelling: 'typos, spelling mistakes and missing noun capitalization',
+      vocabulary: 'wrong or non-existent word choice',
+      preposition: 'wrong or missing preposition, or wrong case after it',
+      other: 'anything that fits none of the above',
+    },
+    typoExample: '"gut" vs "gutt"',
+    pronunciationFocus: 'ch (ich/ach), the umlauts ä, ö and ü, r, final devoicing (e.g. "Tag"), long and short vowels (e.g. "Staat" vs "Stadt"), z and word stress',
+    lemmaExamples: '"ging" becomes "gehen", "Häuser" (plural) becomes "Haus"',
+    basicWords: 'der, die, das, ein, und, ich, du, ist',
+    wordOrderFocus: 'inversion, verb at the end of a subordinate clause, separable verbs',
+  },
+
+  exerciseInstructions: {
+    cloze: 'Ergänze das fehlende Wort:',
+    translation: 'Übersetze ins Deutsche:',
+    reorder: 'Bring die Wörter in die richtige Reihenfolge.',
+  },
+
+  grammarFocuses: [
+    { id: 'perfekt', label: 'Perfekt', description: 'the perfect tense (Perfekt) with haben or sein and a past participle' },
+    { id: 'separable-verbs', label: 'Separable verbs', description: 'separable verbs (trennbare Verben) such as anrufen and mitnehmen, split in main clauses' },
+    { id: 'inversion', label: 'Inversion', description: 'inversion: the verb in second position when a sentence starts with something other than the subject' },
+    { id: 'cases', label: 'Cases', description: 'accusative and dative after verbs and prepositions, with the matching article endings' },
+    { id: 'um-zu', label: 'Um…zu', description: 'infinitive clauses with um…zu, e.g. "Ich gehe in den Laden, um Brot zu kaufen"' },
+  ],
+
+  articles: ['der', 'die', 'das'],
+  levelStepLabels: { early: 'Anfang', mid: 'Mitte', goed: 'Gut' },
+  specialCharacters: ['ä', 'ö', 'ü', 'ß', 'Ä', 'Ö', 'Ü'],
+
+  speech: {
+    lang: 'de-DE',
+    preferredVoiceLangs: ['de-DE', 'de-AT', 'de-CH'],
+  },
+};
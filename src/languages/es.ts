@@ -0,0 +1,48 @@
+import { LanguagePack } from './types';
+
+export const spanish: LanguagePack = {
+  code: 'es',
+  name: 'Spanish',
+  nativeName: 'Español',
+  flag: '🇪🇸',
+
+  prompts: {
+    mistakeCategories: {
+      'word-order': 'wrong word order, e.g. misplaced object pronouns or adjectives',
+      article: 'wrong el/la/los/las article or missing gender and number agreement',
+      'verb-conjugation': 'wrong verb form, tense, mood (subjunctive) or ser/estar',
+      spelling: 'typos, spelling mistakes and missing or wrong accents',
+      vocabulary: 'wrong or non-existent word choice',
+      preposition: 'wrong or missing preposition, e.g. por/para or the personal "a"',
+      other: 'anything that fits none of the above',
+    },
+    typoExample: '"bueno" vs "bueeno"',
+    pronunciationFocus: 'the tapped and trilled r (e.g. "pero" vs "perro"), j and g, ll and ñ, pure vowels without diphthongs, b/v, and word stress',
+    lemmaExamples: '"fui" becomes "ir", "ciudades" (plural) becomes "ciudad"',
+    basicWords: 'el, la, un, una, y, yo, tú, es',
+    wordOrderFocus: 'object pronouns before the verb, questions, adjective position',
+  },
+
+  exerciseInstructions: {
+    cloze: 'Completa la palabra que falta:',
+    translation: 'Traduce al español:',
+    reorder: 'Ordena las palabras para formar una frase correcta.',
+  },
+
+  grammarFocuses: [
+    { id: 'preterite-imperfect', label: 'Pretérito vs. imperfecto', description: 'the choice between the preterite (pretérito indefinido) and the imperfect (imperfecto)' },
+    { id: 'ser-estar', label: 'Ser vs. estar', description: 'the difference between ser and estar' },
+    { id: 'object-pronouns', label: 'Object pronouns', description: 'direct and indirect object pronouns and their position, e.g. "se lo doy"' },
+    { id: 'subjunctive', label: 'Subjunctive', description: 'the present subjunctive after expressions of wishes, doubt and emotion' },
+    { id: 'para-por', label: 'Para vs. por', description: 'the difference between para and por' },
+  ],
+
+  articles: ['el', 'la'],
+  levelStepLabels: { early: 'Inicial', mid: 'Medio', goed: 'Bueno' },
+  specialCharacters: ['á', 'é', 'í', 'ó', 'ú', 'ñ', 'ü', '¿', '¡'],
+
+  speech: {
+    lang: 'es-ES',
+    preferredVoiceLangs: ['es-ES', 'es-MX', 'es-US'],
+  },
+};
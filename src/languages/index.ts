@@ -0,0 +1,43 @@
+import { Question, TargetLanguage, UserDocument, VocabularyEntry } from '../types';
+import { LanguagePack } from './types';
+import { dutch } from './nl';
+import { german } from './de';
+import { spanish } from './es';
+
+export type { GrammarFocus, LanguagePack, LevelStepName } from './types';
+export {
+  DEFAULT_SUPPORT_SETTINGS,
+  SUPPORT_LANGUAGES,
+  SUPPORT_LANGUAGE_NAMES,
+  getSupportInstructions,
+  getTranslationInstructions,
+  isSupportLanguageSettings,
+  splitTranslation,
+} from './support';
+
+// Everything stored before language packs existed is Dutch
+export const DEFAULT_LANGUAGE: TargetLanguage = 'nl';
+
+export const LANGUAGE_PACKS: Record<TargetLanguage, LanguagePack> = {
+  nl: dutch,
+  de: german,
+  es: spanish,
+};
+
+export const TARGET_LANGUAGES = Object.keys(LANGUAGE_PACKS) as TargetLanguage[];
+
+export function isTargetLanguage(value: unknown): value is TargetLanguage {
+  return typeof value === 'string' && (TARGET_LANGUAGES as string[]).includes(value);
+}
+
+export function getLanguagePack(language: TargetLanguage | undefined): LanguagePack {
+  return LANGUAGE_PACKS[language || DEFAULT_LANGUAGE];
+}
+
+export function getTargetLanguage(userDoc: Pick<UserDocument, 'targetLanguage'> | null | undefined): TargetLanguage {
+  return userDoc?.targetLanguage || DEFAULT_LANGUAGE;
+}
+
+export function getQuestionLanguage(item: Pick<Question, 'language'> | Pick<VocabularyEntry, 'language'>): TargetLanguage {
+  return item.language || DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,48 @@
+import { LanguagePack } from './types';
+
+export const dutch: LanguagePack = {
+  code: 'nl',
+  name: 'Dutch',
+  nativeName: 'Nederlands',
+  flag: '🇳🇱',
+
+  prompts: {
+    mistakeCategories: {
+      'word-order': 'wrong word order, e.g. verb not in second position (V2) or not at the end of a subordinate clause',
+      article: 'wrong de/het article or article-dependent adjective ending',
+      'verb-conjugation': 'wrong verb form, tense or auxiliary',
+      spelling: 'typos and spelling mistakes',
+      vocabulary: 'wrong or non-existent word choice',
+      preposition: 'wrong or missing preposition',
+      other: 'anything that fits none of the above',
+    },
+    typoExample: '"goed" vs "gooed"',
+    pronunciationFocus: 'g/ch, ui, eu, ij/ei, ou/au, the long and short vowels (e.g. "man" vs "maan"), the final -n in plurals and infinitives, and word stress',
+    lemmaExamples: '"liep" becomes "lopen", "fietsen" (plural) becomes "fiets"',
+    basicWords: 'de, het, een, en, ik, je, is',
+    wordOrderFocus: 'inversion, verb at the end of a subordinate clause',
+  },
+
+  exerciseInstructions: {
+    cloze: 'Vul het ontbrekende woord in:',
+    translation: 'Vertaal naar het Nederlands:',
+    reorder: 'Zet de woorden in de goede volgorde.',
+  },
+
+  grammarFocuses: [
+    { id: 'perfectum', label: 'Perfectum', description: 'the perfect tense (perfectum) with hebben or zijn and a past participle' },
+    { id: 'separable-verbs', label: 'Separable verbs', description: 'separable verbs (scheidbare werkwoorden) such as opbellen and meenemen, split in main clauses' },
+    { id: 'inversion', label: 'Inversion', description: 'inversion: the verb in second position when a sentence starts with something other than the subject' },
+    { id: 'diminutives', label: 'Diminutives', description: 'diminutives with -je, -tje, -pje, -etje and -kje, which are always het-words' },
+    { id: 'om-te', label: 'Om…te', description: 'infinitive clauses with om…te, e.g. "Ik ga naar de winkel om brood te kopen"' },
+  ],
+
+  articles: ['de', 'het'],
+  levelStepLabels: { early: 'Early', mid: 'Mid', goed: 'Goed' },
+  specialCharacters: ['é', 'è', 'ë', 'ï', 'ö', 'ü', 'ĳ'],
+
+  speech: {
+    lang: 'nl-NL',
+    preferredVoiceLangs: ['nl-NL', 'nl-BE'],
+  },
+};
@@ -0,0 +1,52 @@
+import { SupportLanguage, SupportLanguageSettings } from '../types';
+import { LanguagePack } from './types';
+
+export const SUPPORT_LANGUAGE_NAMES: Record<SupportLanguage, string> = {
+  en: 'English',
+  ru: 'Russian',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  ar: 'Arabic',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  fr: 'French',
+  zh: 'Chinese',
+};
+
+export const SUPPORT_LANGUAGES = Object.keys(SUPPORT_LANGUAGE_NAMES) as SupportLanguage[];
+
+export const DEFAULT_SUPPORT_SETTINGS: SupportLanguageSettings = { language: 'en', showBoth: false };
+
+// Separates the target-language text from its translation in "show both" mode
+export const TRANSLATION_SEPARATOR = '---';
+
+export function isSupportLanguageSettings(value: unknown): value is SupportLanguageSettings {
+  if (typeof value !== 'object' || value === null) return false;
+  const { language, showBoth } = value as Record<string, unknown>;
+  return typeof language === 'string' && (SUPPORT_LANGUAGES as string[]).includes(language) && typeof showBoth === 'boolean';
+}
+
+// Prompt instruction for a translation appended after the text, e.g. subject "conversation"
+export function getTranslationInstructions(support: SupportLanguageSettings, subject: string): string {
+  return `After the ${subject}, add a line containing only "${TRANSLATION_SEPARATOR}", followed by a translation of the ${subject} into ${SUPPORT_LANGUAGE_NAMES[support.language]}. Do not use "${TRANSLATION_SEPARATOR}" anywhere else.`;
+}
+
+// Prompt instruction for the language of an explanation, e.g. subject "explanation"
+export function getSupportInstructions(support: SupportLanguageSettings, pack: LanguagePack, subject: string): string {
+  if (!support.showBoth) {
+    return `Write the ${subject} in ${SUPPORT_LANGUAGE_NAMES[support.language]}.`;
+  }
+  return `Write the ${subject} in simple ${pack.name}. ${getTranslationInstructions(support, subject)}`;
+}
+
+// Split "show both" text into the original and its translation, also while it is still streaming in
+export function splitTranslation(text: string): { original: string; translation?: string } {
+  const lines = text.split('\n');
+  const separatorIndex = lines.findIndex(line => line.trim() === TRANSLATION_SEPARATOR);
+  if (separatorIndex === -1) return { original: text };
+
+  return {
+    original: lines.slice(0, separatorIndex).join('\n').trim(),
+    translation: lines.slice(separatorIndex + 1).join('\n').trim(),
+  };
+}
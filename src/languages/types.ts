@@ -0,0 +1,45 @@
+import { MistakeCategory, TargetLanguage } from '../types';
+
+// Steps within a CEFR band, the suffix of level ids like "a1-goed"
+export type LevelStepName = 'early' | 'mid' | 'goed';
+
+export interface GrammarFocus {
+  id: string; // Stored on questions, keep it stable
+  label: string; // Shown in the UI
+  description: string; // Filled into the generate-question prompt
+}
+
+export interface LanguagePack {
+  code: TargetLanguage;
+  name: string; // English name, used in prompts and the UI
+  nativeName: string;
+  flag: string;
+
+  // Fragments that are filled into the API prompts
+  prompts: {
+    mistakeCategories: Record<MistakeCategory, string>; // How each category shows up in this language
+    typoExample: string; // A minor typo that doesn't change the meaning
+    pronunciationFocus: string; // Sounds learners typically struggle with
+    lemmaExamples: string; // Inflected forms and their dictionary form
+    basicWords: string; // Function words too basic for the glossary
+    wordOrderFocus: string; // What word order exercises should practise
+  };
+
+  // Exercise instructions shown to the learner, in the target language
+  exerciseInstructions: {
+    cloze: string;
+    translation: string;
+    reorder: string;
+  };
+
+  grammarFocuses: GrammarFocus[]; // Grammar points learners can choose to practise
+  articles: string[]; // Noun articles stored in the glossary
+  levelStepLabels: Record<LevelStepName, string>;
+  specialCharacters: string[]; // Offered as buttons next to answer inputs
+
+  // Text-to-speech and recording hints
+  speech: {
+    lang: string; // BCP 47 tag used when no voice is available
+    preferredVoiceLangs: string[]; // Voices are picked in this order, e.g. nl-NL before nl-BE
+  };
+}
@@ -1,19 +1,72 @@
-import { Question, ValidationResponse } from '../types';
+import { auth } from '../firebase/config';
+import { Exchange, Exercise, ExtractedWord, GenerationInfo, HintKind, LearnerProfile, PracticeTheme, PronunciationResponse, QuestionKind, SupportLanguageSettings, TargetLanguage, ValidationResponse } from '../types';
 
 const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL as string | undefined) || '/api';
 
+export class ApiError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+    }
+}
+
+// Every API route requires the caller's Firebase ID token
+async function getRequestHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+    };
+    const idToken = await auth.currentUser?.getIdToken();
+    if (idToken) {
+        headers.Authorization = `Bearer ${idToken}`;
+    }
+    return headers;
+}
+
+// User-facing message for failed API calls
+export function describeApiError(error: unknown): string {
+    if (error instanceof ApiError) {
+        if (error.status === 401) return 'Your session has expired. Please sign out and sign in again.';
+        if (error.status === 429) return 'You are going a bit fast. Please wait a moment before trying again.';
+        return error.message;
+    }
+    return 'Something went wrong. Please try again.';
+}
+
+export interface GeneratedQuestion {
+    question: string;
+    exercise?: Exercise;
+    generation?: GenerationInfo;
+}
+
+// Generated text together with the prompt revision and model that produced it
+export interface GeneratedText {
+    text: string;
+    generation?: GenerationInfo;
+}
+
+// Only the latest exchanges go along, the profile summarizes the older ones
 export async function generateQuestion(
-    answeredQuestions: Question[],
-    currentLevel: string
-): Promise<string> {
+    recentExchanges: Exchange[],
+    profile: LearnerProfile | undefined,
+    currentLevel: string,
+    language: TargetLanguage,
+    kind: QuestionKind = 'open',
+    focus: { theme?: PracticeTheme; grammarFocus?: string } = {}
+): Promise<GeneratedQuestion> {
     const response = await fetch(`${API_BASE_URL}/generate-question`, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+        headers: await getRequestHeaders(),
         body: JSON.stringify({
-            answeredQuestions,
+            recentExchanges,
+            profile,
             currentLevel,
+            language,
+            kind,
+            theme: focus.theme,
+            grammarFocus: focus.grammarFocus,
         }),
     });
 
@@ -25,25 +78,33 @@ export async function generateQuestion(
         } catch {
             errorMessage = `HTTP ${response.status}: ${response.statusText}`;
         }
-        throw new Error(errorMessage);
+        throw new ApiError(errorMessage, response.status);
     }
 
     const data = await response.json();
-    return data.question;
+    return {
+        question: data.question,
+        ...(data.exercise ? { exercise: data.exercise } : {}),
+        ...(data.generation ? { generation: data.generation } : {}),
+    };
 }
 
 export async function validateAnswer(
     question: string,
-    answer: string
+    answer: string,
+    language: TargetLanguage,
+    reference?: string,
+    support?: SupportLanguageSettings
 ): Promise<ValidationResponse> {
     const response = await fetch(`${API_BASE_URL}/validate-answer`, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+        headers: await getRequestHeaders(),
         body: JSON.stringify({
             question,
             answer,
+            reference,
+            language,
+            support,
         }),
     });
 
@@ -55,73 +116,262 @@ export async function validateAnswer(
         } catch {
             errorMessage = `HTTP ${response.status}: ${response.statusText}`;
         }
-        throw new Error(errorMessage);
+        throw new ApiError(errorMessage, response.status);
     }
 
     const data = await response.json();
     return {
         correct: data.correct,
         mistakes: data.mistakes || 'none',
+        mistakeDetails: data.mistakeDetails || [],
         explanation: data.explanation,
+        ...(data.generation ? { generation: data.generation } : {}),
     };
 }
 
-export async function generateContext(
+// Base64 without the "data:...;base64," prefix
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+export async function assessPronunciation(
     question: string,
-    level: string
-): Promise<string> {
-    const response = await fetch(`${API_BASE_URL}/generate-context`, {
+    recording: Blob,
+    language: TargetLanguage
+): Promise<PronunciationResponse> {
+    const response = await fetch(`${API_BASE_URL}/assess-pronunciation`, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+        headers: await getRequestHeaders(),
         body: JSON.stringify({
             question,
-            level,
+            audio: await blobToBase64(recording),
+            mimeType: recording.type,
+            language,
         }),
     });
 
     if (!response.ok) {
-        let errorMessage = 'Failed to generate context';
+        let errorMessage = 'Failed to assess pronunciation';
         try {
             const error = await response.json();
             errorMessage = error.error || errorMessage;
         } catch {
             errorMessage = `HTTP ${response.status}: ${response.statusText}`;
         }
-        throw new Error(errorMessage);
+        throw new ApiError(errorMessage, response.status);
     }
 
     const data = await response.json();
-    return data.conversation;
+    return {
+        transcript: data.transcript,
+        pronunciation: data.pronunciation,
+    };
 }
 
-export async function explainQuestion(
+export async function extractVocabulary(
     question: string,
-    level: string
-): Promise<string> {
-    const response = await fetch(`${API_BASE_URL}/explain-question`, {
+    language: TargetLanguage,
+    answer?: string,
+    context?: string,
+    corrections?: string[]
+): Promise<ExtractedWord[]> {
+    const response = await fetch(`${API_BASE_URL}/extract-vocabulary`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+            question,
+            answer,
+            context,
+            corrections,
+            language,
+        }),
+    });
+
+    if (!response.ok) {
+        let errorMessage = 'Failed to extract vocabulary';
+        try {
+            const error = await response.json();
+            errorMessage = error.error || errorMessage;
+        } catch {
+            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        }
+        throw new ApiError(errorMessage, response.status);
+    }
+
+    const data = await response.json();
+    return data.words || [];
+}
+
+export type LearnerProfileLists = Pick<LearnerProfile, 'topics' | 'weaknesses' | 'mastered' | 'generation'>;
+
+export async function updateLearnerProfile(
+    profile: LearnerProfile | undefined,
+    exchanges: Exchange[],
+    language: TargetLanguage
+): Promise<LearnerProfileLists> {
+    const response = await fetch(`${API_BASE_URL}/update-learner-profile`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+            profile,
+            exchanges,
+            language,
+        }),
+    });
+
+    if (!response.ok) {
+        let errorMessage = 'Failed to update learner profile';
+        try {
+            const error = await response.json();
+            errorMessage = error.error || errorMessage;
+        } catch {
+            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        }
+        throw new ApiError(errorMessage, response.status);
+    }
+
+    const data = await response.json();
+    return {
+        topics: data.topics || [],
+        weaknesses: data.weaknesses || [],
+        mastered: data.mastered || [],
+        ...(data.generation ? { generation: data.generation } : {}),
+    };
+}
+
+export async function getHint(
+    question: string,
+    level: string,
+    kind: HintKind,
+    language: TargetLanguage,
+    support?: SupportLanguageSettings
+): Promise<GeneratedText> {
+    const response = await fetch(`${API_BASE_URL}/hint`, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+        headers: await getRequestHeaders(),
         body: JSON.stringify({
             question,
             level,
+            kind,
+            language,
+            support,
         }),
     });
 
     if (!response.ok) {
-        let errorMessage = 'Failed to explain question';
+        let errorMessage = 'Failed to generate hint';
         try {
             const error = await response.json();
             errorMessage = error.error || errorMessage;
         } catch {
             errorMessage = `HTTP ${response.status}: ${response.statusText}`;
         }
-        throw new Error(errorMessage);
+        throw new ApiError(errorMessage, response.status);
     }
 
     const data = await response.json();
-    return data.explanation;
+    return {
+        text: data.hint,
+        ...(data.generation ? { generation: data.generation } : {}),
+    };
+}
+
+// Parse a server-sent event stream from the API, calling onText with the text received so far.
+// Resolves with the final text and its generation info from the `done` event
+async function readTextStream(
+    response: Response,
+    onText: (partialText: string) => void,
+    fallbackError: string
+): Promise<GeneratedText> {
+    if (!response.ok || !response.body) {
+        let errorMessage = fallbackError;
+        try {
+            const error = await response.json();
+            errorMessage = error.error || errorMessage;
+        } catch {
+            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+        }
+        throw new ApiError(errorMessage, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        let separatorIndex;
+        while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+            const rawEvent = buffer.slice(0, separatorIndex);
+            buffer = buffer.slice(separatorIndex + 2);
+
+            const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+            const data = JSON.parse(rawEvent.match(/^data: (.*)$/m)?.[1] || '{}');
+
+            if (event === 'chunk') {
+                text += data.text;
+                onText(text);
+            } else if (event === 'done') {
+                return { text: data.text, generation: data.generation };
+            } else if (event === 'error') {
+                throw new Error(data.error || fallbackError);
+            }
+        }
+    }
+
+    throw new Error(fallbackError);
+}
+
+export async function generateContextStream(
+    question: string,
+    level: string,
+    language: TargetLanguage,
+    support: SupportLanguageSettings | undefined,
+    onText: (partialText: string) => void
+): Promise<GeneratedText> {
+    const response = await fetch(`${API_BASE_URL}/generate-context`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+            question,
+            level,
+            language,
+            support,
+            stream: true,
+        }),
+    });
+
+    return readTextStream(response, onText, 'Failed to generate context');
+}
+
+export async function explainQuestionStream(
+    question: string,
+    level: string,
+    language: TargetLanguage,
+    support: SupportLanguageSettings | undefined,
+    onText: (partialText: string) => void
+): Promise<GeneratedText> {
+    const response = await fetch(`${API_BASE_URL}/explain-question`, {
+        method: 'POST',
+        headers: await getRequestHeaders(),
+        body: JSON.stringify({
+            question,
+            level,
+            language,
+            support,
+            stream: true,
+        }),
+    });
+
+    return readTextStream(response, onText, 'Failed to explain question');
 }
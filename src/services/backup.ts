@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { LearningBackup, Question } from '../types';
+import { MISTAKE_CATEGORIES } from './mistakes';
+import { getQuestionKind } from './exercises';
+import { PRACTICE_THEMES } from './practice';
+import { TARGET_LANGUAGES, getLanguagePack, getQuestionLanguage } from '../languages';
+
+export const BACKUP_FORMAT = 'learning-backup';
+export const BACKUP_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'anki';
+
+// Mirrors the types in src/types.ts, unknown fields are dropped on import
+const mistakeSchema = z.object({
+  category: z.enum(MISTAKE_CATEGORIES),
+  span: z.string(),
+  correction: z.string(),
+});
+
+const generationSchema = z.object({
+  promptId: z.string(),
+  promptVersion: z.number(),
+  model: z.string(),
+});
+
+const pronunciationSchema = z.object({
+  score: z.number(),
+  summary: z.string(),
+  issues: z.array(z.object({ word: z.string(), issue: z.string(), tip: z.string() })),
+  generation: generationSchema.optional(),
+});
+
+const answerSchema = z.object({
+  answer: z.string(),
+  isCorrect: z.boolean(),
+  mistakes: z.string(),
+  mistakeDetails: z.array(mistakeSchema).optional(),
+  explanation: z.string(),
+  pronunciation: pronunciationSchema.optional(),
+  generation: generationSchema.optional(),
+  hintsUsed: z.number().int().min(0).optional(),
+  answeredAt: z.string(),
+});
+
+const exerciseSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('multiple-choice'), options: z.array(z.string()), correctIndex: z.number().int().min(0) }),
+  z.object({ kind: z.literal('cloze'), before: z.string(), after: z.string(), answer: z.string(), hint: z.string().optional() }),
+  z.object({ kind: z.literal('translation'), source: z.string(), reference: z.string() }),
+  z.object({ kind: z.literal('reorder'), words: z.array(z.string()), solution: z.string() }),
+]);
+
+const questionSchema = z.object({
+  // Ids become Firestore document ids, so they can't contain slashes
+  id: z.string().min(1).regex(/^[^/]+$/),
+  status: z.enum(['none', 'asked', 'answered']),
+  question: z.string(),
+  language: z.enum(TARGET_LANGUAGES).optional(),
+  exercise: exerciseSchema.optional(),
+  theme: z.enum(PRACTICE_THEMES).optional(),
+  grammarFocus: z.string().optional(),
+  answers: z.array(answerSchema),
+  questionExplanation: z.string().optional(),
+  contextConversation: z.string().optional(),
+  generation: generationSchema.optional(),
+  explanationGeneration: generationSchema.optional(),
+  contextGeneration: generationSchema.optional(),
+  askedAt: z.string().optional(),
+  reviewDueAt: z.string().optional(),
+});
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  questions: z.array(questionSchema),
+  dailyQuestions: z.record(z.string().regex(/^\d{4}-\d{2}-\d{2}$/), z.object({
+    askedQuestionIds: z.array(z.string()),
+    answeredQuestionIds: z.array(z.string()),
+    reviewedQuestionIds: z.array(z.string()).optional(),
+  })),
+});
+
+export function createBackup(questions: Question[], dailyQuestions: LearningBackup['dailyQuestions']): LearningBackup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    questions,
+    dailyQuestions,
+  };
+}
+
+// Throws with a readable message when the file is not a backup this version can import
+export function parseBackup(text: string): LearningBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (typeof data === 'object' && data !== null && 'version' in data && data.version !== BACKUP_VERSION) {
+    throw new Error(`Backup version ${String(data.version)} is not supported.`);
+  }
+
+  const result = backupSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`The file is not a valid backup: ${issue.message} at ${issue.path.join('.') || 'the top level'}.`);
+  }
+  return result.data;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per answer, questions without answers get a row with empty answer columns
+export function toCsv(questions: Question[]): string {
+  const header = ['question_id', 'language', 'kind', 'question', 'asked_at', 'answer', 'answered_at', 'correct', 'hints_used', 'mistakes', 'explanation'];
+  const rows = questions.flatMap(question => {
+    const base = [question.id, getQuestionLanguage(question), getQuestionKind(question), question.question, question.askedAt || ''];
+    if (question.answers.length === 0) return [[...base, '', '', '', '', '', '']];
+    return question.answers.map(answer => [
+      ...base,
+      answer.answer,
+      answer.answeredAt,
+      answer.isCorrect ? 'yes' : 'no',
+      String(answer.hintsUsed ?? 0),
+      (answer.mistakeDetails || []).map(m => `${m.span} → ${m.correction}`).join('; '),
+      answer.explanation,
+    ]);
+  });
+
+  // Excel needs CRLF line endings and a BOM to read UTF-8
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, ' ')
+    .replace(/\n/g, '<br>');
+}
+
+// Apply the corrections to the learner's sentence, spans are quoted exactly as written
+function applyCorrections(answer: string, corrections: { span: string; correction: string }[]): string {
+  return corrections.reduce((sentence, m) => (m.span ? sentence.replace(m.span, m.correction) : sentence), answer);
+}
+
+// Anki's plain-text import format: one note per corrected answer, the learner's sentence on the front
+// and the corrected sentence with the explanation on the back
+export function toAnkiDeck(questions: Question[]): string {
+  const notes = new Map<string, string>();
+  for (const question of questions) {
+    const languageName = getLanguagePack(getQuestionLanguage(question)).name;
+    for (const answer of question.answers) {
+      const corrections = answer.mistakeDetails || [];
+      if (answer.isCorrect || corrections.length === 0) continue;
+
+      const front = `${escapeHtml(question.question)}<br><br><i>${escapeHtml(answer.answer)}</i>`;
+      const back = `<b>${escapeHtml(applyCorrections(answer.answer, corrections))}</b><br><br>${escapeHtml(answer.explanation)}`;
+      // Tags can't contain spaces
+      notes.set(front, `${front}\t${back}\t${languageName.toLowerCase()}`);
+    }
+  }
+
+  const headers = ['#separator:tab', '#html:true', '#notetype:Basic', '#deck:Language Learning::Corrections', '#tags column:3'];
+  return [...headers, ...notes.values()].join('\n');
+}
+
+// Let the browser save generated text as a file
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,96 @@
+import { Exercise, Question, QuestionKind, ValidationResponse } from '../types';
+
+export const QUESTION_KIND_LABELS: Record<QuestionKind, string> = {
+  open: 'Open question',
+  'multiple-choice': 'Multiple choice',
+  cloze: 'Fill in the blank',
+  translation: 'Translate',
+  reorder: 'Word order',
+};
+
+export const QUESTION_KINDS = [
+  'open',
+  'multiple-choice',
+  'cloze',
+  'translation',
+  'reorder',
+] as const satisfies readonly QuestionKind[];
+
+export const CLOZE_BLANK = '___';
+
+export function getQuestionKind(question: Pick<Question, 'exercise'>): QuestionKind {
+  return question.exercise?.kind ?? 'open';
+}
+
+export function pickQuestionKind(preference: QuestionKind | 'mixed' | undefined): QuestionKind {
+  if (preference && preference !== 'mixed') return preference;
+  return QUESTION_KINDS[Math.floor(Math.random() * QUESTION_KINDS.length)];
+}
+
+export function getClozeSentence(exercise: { before: string; after: string }): string {
+  return `${exercise.before} ${CLOZE_BLANK} ${exercise.after}`.trim();
+}
+
+// Case, surrounding whitespace and final punctuation don't count as mistakes
+export function normalizeAnswer(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[.!?,;:]+$/, '')
+    .replace(/\s+/g, ' ');
+}
+
+// Expected answer passed along when the answer has to be graded by the model
+export function getReferenceAnswer(exercise: Exercise | undefined): string | undefined {
+  switch (exercise?.kind) {
+    case 'cloze':
+      return exercise.answer;
+    case 'reorder':
+      return exercise.solution;
+    case 'translation':
+      return exercise.reference;
+    default:
+      return undefined;
+  }
+}
+
+function correctResponse(explanation: string): ValidationResponse {
+  return { correct: true, mistakes: 'none', mistakeDetails: [], explanation };
+}
+
+// Grade objective exercises without an API call. Returns null when the answer needs
+// the model: open questions, translations and cloze or reorder answers that differ from the key
+export function gradeLocally(question: Question, answer: string): ValidationResponse | null {
+  const exercise = question.exercise;
+  if (!exercise) return null;
+
+  switch (exercise.kind) {
+    case 'multiple-choice': {
+      const correctOption = exercise.options[exercise.correctIndex];
+      if (normalizeAnswer(answer) === normalizeAnswer(correctOption)) {
+        return correctResponse(`"${correctOption}" is the right answer.`);
+      }
+      return {
+        correct: false,
+        mistakes: `- "${answer}" → "${correctOption}"`,
+        mistakeDetails: [],
+        explanation: `"${answer}" is not right here, the answer is "${correctOption}".`,
+      };
+    }
+    case 'reorder': {
+      if (normalizeAnswer(answer) === normalizeAnswer(exercise.solution)) {
+        return correctResponse('The words are in the right order.');
+      }
+      // Word order is often flexible, let the model decide
+      return null;
+    }
+    case 'cloze':
+      if (normalizeAnswer(answer) === normalizeAnswer(exercise.answer)) {
+        return correctResponse(`"${exercise.answer}" fits the blank.`);
+      }
+      // Another word may fit as well, let the model decide
+      return null;
+    case 'translation':
+      return null;
+  }
+}
@@ -1,11 +1,47 @@
 import {
+  arrayUnion,
+  collection,
+  deleteField,
   doc,
   getDoc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  runTransaction,
   setDoc,
-  updateDoc
+  startAfter,
+  updateDoc,
+  where,
+  writeBatch
 } from 'firebase/firestore';
 import { db } from '../firebase/config';
-import { UserDocument, Question, QuestionV1, Answer } from '../types';
+import { UserDocument, UserDocumentV1, Question, QuestionV1, Answer, Mistake, DailyQuestions, LevelChange, ExtractedWord, VocabularyEntry, TargetLanguage, LearningBackup, LearnerProfile } from '../types';
+import { countMistakesByCategory } from './mistakes';
+import { getReviewDueAt } from './review';
+import { toLocalDateKey } from './progress';
+import { getVocabularyEntryId } from './vocabulary';
+import { DEFAULT_LANGUAGE, getQuestionLanguage } from '../languages';
+
+// Firestore allows at most 500 writes per batch
+const MAX_BATCH_SIZE = 500;
+// Answered questions read while looking for the ones in a language, see getRecentAnsweredQuestions
+const MAX_SCANNED_ANSWERED_QUESTIONS = 200;
+
+function questionsCollection(uid: string) {
+  return collection(db, 'users', uid, 'questions');
+}
+
+function questionDoc(uid: string, questionId: string) {
+  return doc(db, 'users', uid, 'questions', questionId);
+}
+
+function vocabularyCollection(uid: string) {
+  return collection(db, 'users', uid, 'vocabulary');
+}
 
 // Remove undefined values from object (Firestore doesn't accept undefined)
 function removeUndefined<T extends Record<string, any>>(obj: T): Partial<T> {
@@ -88,37 +124,88 @@ function migrateQuestion(question: Question | QuestionV1): Question {
   return migrated;
 }
 
-function migrateUserDocument(doc: { questions: (Question | QuestionV1)[]; dailyQuestions: any; level: string }): UserDocument {
+// Days written through field paths only contain the lists that were touched that day
+function normalizeDailyQuestions(dailyQuestions: DailyQuestions | undefined): DailyQuestions {
+  const normalized: DailyQuestions = {};
+  for (const [date, day] of Object.entries(dailyQuestions || {})) {
+    normalized[date] = {
+      askedQuestionIds: day.askedQuestionIds || [],
+      answeredQuestionIds: day.answeredQuestionIds || [],
+      reviewedQuestionIds: day.reviewedQuestionIds || [],
+    };
+  }
+  return normalized;
+}
+
+function migrateUserDocument(doc: UserDocument | UserDocumentV1): UserDocument {
   return {
-    questions: doc.questions.map(migrateQuestion),
-    dailyQuestions: doc.dailyQuestions,
+    dailyQuestions: normalizeDailyQuestions(doc.dailyQuestions),
     level: doc.level,
+    levelHistory: doc.levelHistory || [],
+    autoLevel: doc.autoLevel ?? false,
+    mistakeStats: doc.mistakeStats || {},
+    ...(doc.reminders ? { reminders: doc.reminders } : {}),
+    ...(doc.listening ? { listening: doc.listening } : {}),
+    ...(doc.questionKind ? { questionKind: doc.questionKind } : {}),
+    ...(doc.targetLanguage ? { targetLanguage: doc.targetLanguage } : {}),
+    ...(doc.support ? { support: doc.support } : {}),
+    ...(doc.learnerProfiles ? { learnerProfiles: doc.learnerProfiles } : {}),
+    ...(doc.practiceFocus ? { practiceFocus: doc.practiceFocus } : {}),
   };
 }
 
+// Fill in fields the subcollection queries rely on
+function prepareQuestionForStorage(question: Question): Question {
+  const prepared: Question = { ...question };
+
+  // Question ids are creation timestamps, so they stand in for a missing askedAt
+  if (!prepared.askedAt) {
+    const createdAt = new Date(Number(prepared.id));
+    prepared.askedAt = isNaN(createdAt.getTime()) ? new Date(0).toISOString() : createdAt.toISOString();
+  }
+
+  prepared.reviewDueAt = getReviewDueAt(prepared);
+
+  return removeUndefined(prepared) as Question;
+}
+
+// Migration: Move the inline questions array (V1) into the users/{uid}/questions subcollection
+async function migrateQuestionsToSubcollection(uid: string, questions: (Question | QuestionV1)[]): Promise<void> {
+  const migratedQuestions = questions.map(q => prepareQuestionForStorage(migrateQuestion(q)));
+
+  for (let i = 0; i < migratedQuestions.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const question of migratedQuestions.slice(i, i + MAX_BATCH_SIZE)) {
+      batch.set(questionDoc(uid, question.id), question);
+    }
+    await batch.commit();
+  }
+
+  // Only drop the array once every question has been copied
+  await updateDoc(doc(db, 'users', uid), { questions: deleteField() });
+}
+
 export async function getUserDocument(uid: string): Promise<UserDocument | null> {
   const docRef = doc(db, 'users', uid);
   const docSnap = await getDoc(docRef);
 
   if (docSnap.exists()) {
-    const rawDoc = docSnap.data() as { questions: (Question | QuestionV1)[]; dailyQuestions: any; level: string };
-    // Run migration
-    const migratedDoc = migrateUserDocument(rawDoc);
-
-    // Check if any questions need migration
-    const needsUpdate = rawDoc.questions.some(q => isQuestionV1(q));
-    if (needsUpdate) {
-      await updateDoc(docRef, { questions: migratedDoc.questions });
+    const rawDoc = docSnap.data() as UserDocument | UserDocumentV1;
+
+    if ('questions' in rawDoc && Array.isArray(rawDoc.questions)) {
+      await migrateQuestionsToSubcollection(uid, rawDoc.questions);
     }
 
-    return migratedDoc;
+    return migrateUserDocument(rawDoc);
   }
 
   // Create initial document if it doesn't exist
   const initialDoc: UserDocument = {
-    questions: [],
     dailyQuestions: {},
     level: 'a0',
+    levelHistory: [],
+    autoLevel: false,
+    mistakeStats: {},
   };
 
   await setDoc(docRef, initialDoc);
@@ -135,77 +222,245 @@ export async function updateUserDocument(
   await updateDoc(docRef, cleanedUpdates);
 }
 
-export async function addQuestion(uid: string, question: Question): Promise<void> {
-  const userDoc = await getUserDocument(uid);
-  if (!userDoc) return;
+// Switch level and append the change to the level history in one write
+export async function changeLevel(uid: string, change: LevelChange): Promise<void> {
+  await updateDoc(doc(db, 'users', uid), {
+    level: change.to,
+    levelHistory: arrayUnion(change),
+  });
+}
+
+// Replace the profile of one language, leaving the others alone
+export async function saveLearnerProfile(uid: string, language: TargetLanguage, profile: LearnerProfile): Promise<void> {
+  await updateDoc(doc(db, 'users', uid), {
+    [`learnerProfiles.${language}`]: removeUndefined(profile),
+  });
+}
+
+export interface QuestionsPage {
+  questions: Question[]; // Newest first
+  cursor: QueryDocumentSnapshot | null; // Pass back to load the next (older) page
+  hasMore: boolean;
+}
+
+export async function getQuestionsPage(
+  uid: string,
+  pageSize: number,
+  cursor: QueryDocumentSnapshot | null = null
+): Promise<QuestionsPage> {
+  const pageQuery = cursor
+    ? query(questionsCollection(uid), orderBy('askedAt', 'desc'), startAfter(cursor), limit(pageSize))
+    : query(questionsCollection(uid), orderBy('askedAt', 'desc'), limit(pageSize));
+  const snapshot = await getDocs(pageQuery);
+
+  return {
+    questions: snapshot.docs.map(d => migrateQuestion(d.data() as Question | QuestionV1)),
+    cursor: snapshot.docs.length > 0 ? snapshot.docs[snapshot.docs.length - 1] : cursor,
+    hasMore: snapshot.docs.length === pageSize,
+  };
+}
 
-  const updatedQuestions = [...userDoc.questions, question];
-  await updateUserDocument(uid, { questions: updatedQuestions });
+export async function getQuestion(uid: string, questionId: string): Promise<Question | null> {
+  const docSnap = await getDoc(questionDoc(uid, questionId));
+  if (!docSnap.exists()) return null;
+  return migrateQuestion(docSnap.data() as Question | QuestionV1);
+}
+
+// Every question of the user, oldest first
+export async function getAllQuestions(uid: string): Promise<Question[]> {
+  const snapshot = await getDocs(query(questionsCollection(uid), orderBy('askedAt', 'asc')));
+  return snapshot.docs.map(d => migrateQuestion(d.data() as Question | QuestionV1));
+}
+
+// The newest `count` answered questions in one language, newest asked first. Questions in
+// other languages are skipped page by page, at most MAX_SCANNED_ANSWERED_QUESTIONS are read
+export async function getRecentAnsweredQuestions(uid: string, language: TargetLanguage, count: number): Promise<Question[]> {
+  const questions: Question[] = [];
+  let cursor: QueryDocumentSnapshot | null = null;
+
+  for (let scanned = 0; scanned < MAX_SCANNED_ANSWERED_QUESTIONS; scanned += count) {
+    const answeredQuery = cursor
+      ? query(questionsCollection(uid), where('status', '==', 'answered'), orderBy('askedAt', 'desc'), startAfter(cursor), limit(count))
+      : query(questionsCollection(uid), where('status', '==', 'answered'), orderBy('askedAt', 'desc'), limit(count));
+    const snapshot: QuerySnapshot = await getDocs(answeredQuery);
+
+    for (const d of snapshot.docs) {
+      const question = migrateQuestion(d.data() as Question | QuestionV1);
+      if (getQuestionLanguage(question) === language && questions.length < count) {
+        questions.push(question);
+      }
+    }
+
+    if (questions.length >= count || snapshot.docs.length < count) break;
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return questions;
+}
+
+export async function getQuestionsDueForReview(uid: string, now: Date = new Date()): Promise<Question[]> {
+  const dueQuery = query(
+    questionsCollection(uid),
+    where('reviewDueAt', '<=', now.toISOString()),
+    orderBy('reviewDueAt', 'asc')
+  );
+  const snapshot = await getDocs(dueQuery);
+  return snapshot.docs.map(d => migrateQuestion(d.data() as Question | QuestionV1));
 }
 
 export async function updateQuestion(
   uid: string,
   questionId: string,
-  updates: Partial<Question>
+  // Answers go through recordAnswer so the review date and daily tracking stay in sync
+  updates: Partial<Omit<Question, 'answers'>>
 ): Promise<void> {
-  const userDoc = await getUserDocument(uid);
-  if (!userDoc) return;
-
   // Remove undefined values before updating
   const cleanedUpdates = removeUndefined(updates);
-
-  const updatedQuestions = userDoc.questions.map(q => {
-    if (q.id === questionId) {
-      const updated = { ...q, ...cleanedUpdates };
-      // Clean the updated question to remove any undefined values
-      return removeUndefined(updated) as Question;
-    }
-    return q;
-  });
-
-  await updateUserDocument(uid, { questions: updatedQuestions });
+  await updateDoc(questionDoc(uid, questionId), cleanedUpdates);
 }
 
+// Daily tracking uses the user's local calendar day
 export function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
+  return toLocalDateKey(new Date());
 }
 
-export async function markQuestionAsked(uid: string, questionId: string): Promise<void> {
-  const userDoc = await getUserDocument(uid);
-  if (!userDoc) return;
+type DailyQuestionsField = 'askedQuestionIds' | 'answeredQuestionIds' | 'reviewedQuestionIds';
 
-  const today = getTodayDate();
-  const dailyQuestions = userDoc.dailyQuestions || {};
-  const todayQuestions = dailyQuestions[today] || { askedQuestionIds: [], answeredQuestionIds: [] };
+// Field-path update that adds the id to today's list without reading the document
+function dailyQuestionsUpdate(field: DailyQuestionsField, questionId: string) {
+  return { [`dailyQuestions.${getTodayDate()}.${field}`]: arrayUnion(questionId) };
+}
 
-  if (!todayQuestions.askedQuestionIds.includes(questionId)) {
-    todayQuestions.askedQuestionIds.push(questionId);
+// Increment per-category counters so recurring mistakes can be tracked without rereading answers
+function mistakeStatsUpdate(mistakes: Mistake[]) {
+  const updates: Record<string, ReturnType<typeof increment>> = {};
+  for (const [category, count] of Object.entries(countMistakesByCategory(mistakes))) {
+    updates[`mistakeStats.${category}`] = increment(count);
   }
+  return updates;
+}
+
+// Store a new question and mark it as asked today in a single atomic write
+export async function askQuestion(uid: string, question: Question): Promise<void> {
+  const prepared = prepareQuestionForStorage(question);
+  const batch = writeBatch(db);
+  batch.set(questionDoc(uid, prepared.id), prepared);
+  batch.update(doc(db, 'users', uid), dailyQuestionsUpdate('askedQuestionIds', prepared.id));
+  await batch.commit();
+}
+
+// Append an answer to the latest version of the question and update daily tracking
+// and mistake statistics in the same transaction, so concurrent submits can't drop answers
+export async function recordAnswer(uid: string, questionId: string, answer: Answer): Promise<Question> {
+  const questionRef = questionDoc(uid, questionId);
+  const userRef = doc(db, 'users', uid);
+
+  return runTransaction(db, async (transaction) => {
+    const questionSnap = await transaction.get(questionRef);
+    if (!questionSnap.exists()) {
+      throw new Error(`Question ${questionId} not found`);
+    }
+
+    const question = migrateQuestion(questionSnap.data() as Question | QuestionV1);
+    const existingAnswers = question.answers || [];
+    // Answering an already learned question means it came back for review
+    const isReview = existingAnswers.some(a => a.isCorrect);
+
+    const updatedQuestion: Question = {
+      ...question,
+      // Optional fields like the generation info may be undefined, which Firestore rejects
+      answers: [...existingAnswers, removeUndefined(answer) as Answer],
+      // Set status to answered if this is the first answer
+      status: existingAnswers.length === 0 ? 'answered' : question.status,
+    };
+    const reviewDueAt = getReviewDueAt(updatedQuestion);
+
+    transaction.update(questionRef, {
+      answers: updatedQuestion.answers,
+      status: updatedQuestion.status,
+      reviewDueAt: reviewDueAt ?? deleteField(),
+    });
 
-  await updateUserDocument(uid, {
-    dailyQuestions: {
-      ...dailyQuestions,
-      [today]: todayQuestions,
-    },
+    transaction.update(userRef, {
+      ...(existingAnswers.length === 0 ? dailyQuestionsUpdate('answeredQuestionIds', questionId) : {}),
+      ...(isReview ? dailyQuestionsUpdate('reviewedQuestionIds', questionId) : {}),
+      ...mistakeStatsUpdate(answer.mistakeDetails || []),
+    });
+
+    return removeUndefined({ ...updatedQuestion, reviewDueAt }) as Question;
   });
 }
 
-export async function markQuestionAnswered(uid: string, questionId: string): Promise<void> {
-  const userDoc = await getUserDocument(uid);
-  if (!userDoc) return;
+export interface ImportResult {
+  imported: number;
+  skipped: number; // Questions whose id already exists, they are left as they are
+}
 
-  const today = getTodayDate();
-  const dailyQuestions = userDoc.dailyQuestions || {};
-  const todayQuestions = dailyQuestions[today] || { askedQuestionIds: [], answeredQuestionIds: [] };
+// Merge a backup into the account: new questions are added with their answers,
+// daily tracking is merged and mistake statistics count the imported answers
+export async function importBackup(uid: string, backup: LearningBackup): Promise<ImportResult> {
+  const snapshot = await getDocs(questionsCollection(uid));
+  const existingIds = new Set(snapshot.docs.map(d => d.id));
+
+  const newQuestions: Question[] = [];
+  for (const question of backup.questions) {
+    if (existingIds.has(question.id)) continue;
+    existingIds.add(question.id); // Also skips duplicates within the backup
+    newQuestions.push(prepareQuestionForStorage(question));
+  }
 
-  if (!todayQuestions.answeredQuestionIds.includes(questionId)) {
-    todayQuestions.answeredQuestionIds.push(questionId);
+  for (let i = 0; i < newQuestions.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const question of newQuestions.slice(i, i + MAX_BATCH_SIZE)) {
+      batch.set(questionDoc(uid, question.id), question);
+    }
+    await batch.commit();
   }
 
-  await updateUserDocument(uid, {
-    dailyQuestions: {
-      ...dailyQuestions,
-      [today]: todayQuestions,
-    },
-  });
+  const userUpdates: Record<string, ReturnType<typeof arrayUnion> | ReturnType<typeof increment>> = {
+    ...mistakeStatsUpdate(newQuestions.flatMap(q => q.answers.flatMap(a => a.mistakeDetails || []))),
+  };
+  for (const [date, day] of Object.entries(backup.dailyQuestions)) {
+    for (const field of ['askedQuestionIds', 'answeredQuestionIds', 'reviewedQuestionIds'] as const) {
+      const ids = day[field] || [];
+      if (ids.length > 0) {
+        userUpdates[`dailyQuestions.${date}.${field}`] = arrayUnion(...ids);
+      }
+    }
+  }
+  if (Object.keys(userUpdates).length > 0) {
+    await updateDoc(doc(db, 'users', uid), userUpdates);
+  }
+
+  return { imported: newQuestions.length, skipped: backup.questions.length - newQuestions.length };
+}
+
+export async function getVocabulary(uid: string): Promise<VocabularyEntry[]> {
+  const snapshot = await getDocs(vocabularyCollection(uid));
+  return snapshot.docs.map(d => d.data() as VocabularyEntry);
+}
+
+// Merge words into the glossary: known words get the question added to their sources
+// and their details refreshed, new words are created
+export async function addVocabulary(
+  uid: string,
+  questionId: string,
+  language: TargetLanguage,
+  words: ExtractedWord[]
+): Promise<void> {
+  const lastSeenAt = new Date().toISOString();
+  for (let i = 0; i < words.length; i += MAX_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const word of words.slice(i, i + MAX_BATCH_SIZE)) {
+      const id = getVocabularyEntryId(word.lemma, word.partOfSpeech, language);
+      batch.set(doc(vocabularyCollection(uid), id), {
+        ...removeUndefined(word),
+        id,
+        ...(language !== DEFAULT_LANGUAGE ? { language } : {}),
+        sourceQuestionIds: arrayUnion(questionId),
+        lastSeenAt,
+      }, { merge: true });
+    }
+    await batch.commit();
+  }
 }
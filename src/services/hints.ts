@@ -0,0 +1,19 @@
+import { Answer, HintKind } from '../types';
+
+// In the order they are revealed
+export const HINT_KINDS = ['vocabulary', 'structure', 'skeleton'] as const satisfies readonly HintKind[];
+
+export const HINT_LABELS: Record<HintKind, string> = {
+  vocabulary: '🔑 Key words',
+  structure: '🧱 Sentence structure',
+  skeleton: '✏️ Answer skeleton',
+};
+
+export function isHintKind(value: unknown): value is HintKind {
+  return typeof value === 'string' && (HINT_KINDS as readonly string[]).includes(value);
+}
+
+// Correct answers given with hints don't count as first-try successes in the stats and level logic
+export function isAssisted(answer: Pick<Answer, 'hintsUsed'>): boolean {
+  return (answer.hintsUsed ?? 0) > 0;
+}
@@ -0,0 +1,96 @@
+import { Exchange, LearnerProfile, Question } from '../types';
+
+// Exchanges sent verbatim to generate-question, older ones only live on in the profile
+export const RECENT_EXCHANGES = 10;
+// Most exchanges folded into the profile at once; a longer backlog keeps only its newest ones
+export const PROFILE_BATCH_SIZE = 20;
+// Entries per profile list
+export const PROFILE_ITEM_LIMIT = 12;
+// Longer texts are cut, so requests stay the same size however verbose the learner is
+export const EXCHANGE_TEXT_LIMIT = 400;
+const PROFILE_ITEM_TEXT_LIMIT = 120;
+
+function truncate(text: string, limit: number): string {
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+function getLastAnsweredAt(question: Question): string {
+  return question.answers[question.answers.length - 1]?.answeredAt || '';
+}
+
+export function toExchange(question: Question): Exchange {
+  const answer = question.answers[question.answers.length - 1];
+  const mistakes = answer.mistakeDetails
+    ? answer.mistakeDetails.map(m => `${m.category}: "${m.span}" → "${m.correction}"`).join('; ')
+    : answer.mistakes !== 'none' ? answer.mistakes : '';
+
+  return {
+    question: truncate(question.question, EXCHANGE_TEXT_LIMIT),
+    answer: truncate(answer.answer, EXCHANGE_TEXT_LIMIT),
+    correct: answer.isCorrect,
+    ...(mistakes ? { mistakes: truncate(mistakes, EXCHANGE_TEXT_LIMIT) } : {}),
+  };
+}
+
+export interface ProfileContext {
+  recent: Exchange[]; // Oldest first
+  // Exchanges that dropped out of `recent` but aren't in the profile yet, null when there are none
+  pending: { exchanges: Exchange[]; upTo: string } | null;
+}
+
+// Split the answered questions into the recent window and the backlog for the profile
+export function getProfileContext(answeredQuestions: Question[], profile: LearnerProfile | undefined): ProfileContext {
+  const answered = answeredQuestions
+    .filter(q => q.status === 'answered' && q.answers.length > 0)
+    .sort((a, b) => getLastAnsweredAt(a).localeCompare(getLastAnsweredAt(b)));
+
+  const recent = answered.slice(-RECENT_EXCHANGES);
+  const older = answered
+    .slice(0, -RECENT_EXCHANGES)
+    .filter(q => !profile || getLastAnsweredAt(q) > profile.summarizedUpTo);
+
+  return {
+    recent: recent.map(toExchange),
+    pending: older.length > 0
+      ? { exchanges: older.slice(-PROFILE_BATCH_SIZE).map(toExchange), upTo: getLastAnsweredAt(older[older.length - 1]) }
+      : null,
+  };
+}
+
+function isStringList(value: unknown, maxItems: number, maxLength: number): value is string[] {
+  return Array.isArray(value)
+    && value.length <= maxItems
+    && value.every(item => typeof item === 'string' && item.length <= maxLength);
+}
+
+export function isExchangeList(value: unknown, maxItems: number): value is Exchange[] {
+  return Array.isArray(value) && value.length <= maxItems && value.every(item => {
+    if (typeof item !== 'object' || item === null) return false;
+    const { question, answer, correct, mistakes } = item as Record<string, unknown>;
+    return typeof question === 'string' && question.length <= EXCHANGE_TEXT_LIMIT
+      && typeof answer === 'string' && answer.length <= EXCHANGE_TEXT_LIMIT
+      && (correct === undefined || typeof correct === 'boolean')
+      && (mistakes === undefined || (typeof mistakes === 'string' && mistakes.length <= EXCHANGE_TEXT_LIMIT));
+  });
+}
+
+// Only the lists matter to the API, the bookkeeping fields are checked loosely
+export function isLearnerProfile(value: unknown): value is LearnerProfile {
+  if (typeof value !== 'object' || value === null) return false;
+  const { topics, weaknesses, mastered } = value as Record<string, unknown>;
+  return isStringList(topics, PROFILE_ITEM_LIMIT, PROFILE_ITEM_TEXT_LIMIT)
+    && isStringList(weaknesses, PROFILE_ITEM_LIMIT, PROFILE_ITEM_TEXT_LIMIT)
+    && isStringList(mastered, PROFILE_ITEM_LIMIT, PROFILE_ITEM_TEXT_LIMIT);
+}
+
+// Model output squeezed into the limits isLearnerProfile checks
+export function limitProfileItems(items: string[]): string[] {
+  return items
+    .map(item => truncate(item.trim(), PROFILE_ITEM_TEXT_LIMIT))
+    .filter(Boolean)
+    .slice(0, PROFILE_ITEM_LIMIT);
+}
+
+export function formatExchanges(exchanges: Exchange[]): string {
+  return exchanges.map(e => `Q: ${e.question}\nA: ${e.answer}`).join('\n\n');
+}
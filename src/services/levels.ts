@@ -0,0 +1,109 @@
+import { Answer, LevelChange, Question, TargetLanguage } from '../types';
+import { LevelStepName, getLanguagePack } from '../languages';
+import { isAssisted } from './hints';
+
+export interface LevelStep {
+  id: string;
+  label: string;
+  band: string; // CEFR band, used to group the level selector
+}
+
+// Ordered from beginner to advanced; ids are stored on the user document and sent in prompts
+export const LEVELS: LevelStep[] = [
+  { id: 'a0', label: 'A0', band: 'A0' },
+  { id: 'a1-early', label: 'A1-Early', band: 'A1' },
+  { id: 'a1-mid', label: 'A1-Mid', band: 'A1' },
+  { id: 'a1-goed', label: 'A1-Goed', band: 'A1' },
+  { id: 'a2-early', label: 'A2-Early', band: 'A2' },
+  { id: 'a2-mid', label: 'A2-Mid', band: 'A2' },
+  { id: 'a2-goed', label: 'A2-Goed', band: 'A2' },
+  { id: 'b1-early', label: 'B1-Early', band: 'B1' },
+  { id: 'b1-mid', label: 'B1-Mid', band: 'B1' },
+  { id: 'b1-goed', label: 'B1-Goed', band: 'B1' },
+  { id: 'b2-early', label: 'B2-Early', band: 'B2' },
+  { id: 'b2-mid', label: 'B2-Mid', band: 'B2' },
+  { id: 'b2-goed', label: 'B2-Goed', band: 'B2' },
+  { id: 'c1-early', label: 'C1-Early', band: 'C1' },
+  { id: 'c1-mid', label: 'C1-Mid', band: 'C1' },
+  { id: 'c1-goed', label: 'C1-Goed', band: 'C1' },
+];
+
+export const LEVEL_BANDS = Array.from(new Set(LEVELS.map(l => l.band)));
+
+// Step names are translated per language, e.g. "A1-Goed" in Dutch and "A1-Gut" in German
+export function getLevelLabel(levelId: string, language?: TargetLanguage): string {
+  const level = LEVELS.find(l => l.id === levelId);
+  if (!level) return levelId.toUpperCase();
+
+  const step = levelId.split('-')[1] as LevelStepName | undefined;
+  if (!step) return level.label;
+  return `${level.band}-${getLanguagePack(language).levelStepLabels[step]}`;
+}
+
+// Only the most recent answers count, and only once there are enough of them
+export const EVALUATION_WINDOW = 20;
+const MIN_ANSWERS = 12;
+
+// The gap between the promotion and demotion thresholds is the hysteresis:
+// a learner who was just promoted isn't demoted by a slightly worse streak
+const PROMOTE_MIN_ACCURACY = 0.85;
+const PROMOTE_MAX_MISTAKE_DENSITY = 0.5;
+const DEMOTE_MAX_ACCURACY = 0.5;
+const DEMOTE_MIN_MISTAKE_DENSITY = 2;
+
+export interface LevelRecommendation {
+  to: string;
+  reason: 'promotion' | 'demotion';
+  accuracy: number; // First-try correct rate, without hints for promotions
+  mistakeDensity: number; // Mistakes per first answer
+  sampleSize: number;
+}
+
+// Look at first answers given since the last level change and suggest moving one step
+export function evaluateLevel(
+  questions: Question[],
+  currentLevel: string,
+  levelHistory: LevelChange[] = []
+): LevelRecommendation | null {
+  const currentIndex = LEVELS.findIndex(l => l.id === currentLevel);
+  if (currentIndex === -1) return null;
+
+  const lastChange = levelHistory[levelHistory.length - 1];
+  const since = lastChange ? new Date(lastChange.changedAt).getTime() : 0;
+
+  const firstAnswers = questions
+    .map(q => q.answers?.[0])
+    .filter((a): a is Answer => !!a && new Date(a.answeredAt).getTime() > since)
+    .sort((a, b) => new Date(b.answeredAt).getTime() - new Date(a.answeredAt).getTime())
+    .slice(0, EVALUATION_WINDOW);
+
+  if (firstAnswers.length < MIN_ANSWERS) return null;
+
+  // Answers that needed hints count as wrong for promotions, but not towards demotions
+  const accuracy = firstAnswers.filter(a => a.isCorrect).length / firstAnswers.length;
+  const unassistedAccuracy = firstAnswers.filter(a => a.isCorrect && !isAssisted(a)).length / firstAnswers.length;
+  // Answers validated before mistakes were categorized count one mistake when incorrect
+  const mistakeCount = firstAnswers.reduce(
+    (sum, a) => sum + (a.mistakeDetails?.length ?? (a.isCorrect ? 0 : 1)),
+    0
+  );
+  const mistakeDensity = mistakeCount / firstAnswers.length;
+  const stats = { accuracy, mistakeDensity, sampleSize: firstAnswers.length };
+
+  if (
+    unassistedAccuracy >= PROMOTE_MIN_ACCURACY &&
+    mistakeDensity <= PROMOTE_MAX_MISTAKE_DENSITY &&
+    currentIndex < LEVELS.length - 1
+  ) {
+    return { to: LEVELS[currentIndex + 1].id, reason: 'promotion', ...stats, accuracy: unassistedAccuracy };
+  }
+
+  if (
+    (accuracy <= DEMOTE_MAX_ACCURACY || mistakeDensity >= DEMOTE_MIN_MISTAKE_DENSITY) &&
+    currentIndex > 0
+  ) {
+    return { to: LEVELS[currentIndex - 1].id, reason: 'demotion', ...stats };
+  }
+
+  return null;
+}
@@ -0,0 +1,45 @@
+import { Mistake, MistakeCategory, MistakeStats } from '../types';
+
+export const MISTAKE_CATEGORY_LABELS: Record<MistakeCategory, string> = {
+  'word-order': 'Word order',
+  article: 'Article',
+  'verb-conjugation': 'Verb conjugation',
+  spelling: 'Spelling',
+  vocabulary: 'Vocabulary',
+  preposition: 'Preposition',
+  other: 'Other',
+};
+
+export const MISTAKE_CATEGORIES = [
+  'word-order',
+  'article',
+  'verb-conjugation',
+  'spelling',
+  'vocabulary',
+  'preposition',
+  'other',
+] as const satisfies readonly MistakeCategory[];
+
+// Human-readable markdown list, stored as Answer.mistakes for display and older clients
+export function formatMistakes(mistakes: Mistake[]): string {
+  if (mistakes.length === 0) return 'none';
+  return mistakes
+    .map(m => `- **${MISTAKE_CATEGORY_LABELS[m.category]}**: "${m.span}" → "${m.correction}"`)
+    .join('\n');
+}
+
+export function countMistakesByCategory(mistakes: Mistake[]): MistakeStats {
+  const counts: MistakeStats = {};
+  for (const mistake of mistakes) {
+    counts[mistake.category] = (counts[mistake.category] || 0) + 1;
+  }
+  return counts;
+}
+
+// Categories ordered from most to least frequent, skipping ones never seen
+export function getRecurringCategories(stats: MistakeStats): { category: MistakeCategory; count: number }[] {
+  return MISTAKE_CATEGORIES
+    .map(category => ({ category, count: stats[category] || 0 }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
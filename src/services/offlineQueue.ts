@@ -0,0 +1,109 @@
+import { PendingAnswer } from '../types';
+import { validateAnswer } from './ai';
+import { recordAnswer } from './firestore';
+import { DEFAULT_LANGUAGE } from '../languages';
+
+// Shared with public/sw.js, keep both in sync
+const DB_NAME = 'qa-learn-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingAnswers';
+export const SYNC_TAG = 'validate-answers';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+// fetch rejects with a TypeError when the network is unreachable
+export function isNetworkError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+export async function getPendingAnswers(uid: string): Promise<PendingAnswer[]> {
+  const all = await withStore<PendingAnswer[]>('readonly', store => store.getAll());
+  return all
+    .filter(entry => entry.uid === uid)
+    .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt));
+}
+
+async function removePendingAnswer(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+// Ask the service worker to validate queued answers once connectivity returns
+async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & {
+    sync?: { register(tag: string): Promise<void> };
+  };
+  // Background sync is not available everywhere, the app flushes on 'online' as a fallback
+  await registration.sync?.register(SYNC_TAG).catch(() => undefined);
+}
+
+export async function enqueueAnswer(entry: Omit<PendingAnswer, 'id'>): Promise<PendingAnswer> {
+  const pending: PendingAnswer = { ...entry, id: `${entry.questionId}-${Date.now()}` };
+  await withStore('readwrite', store => store.put(pending));
+  await requestBackgroundSync();
+  return pending;
+}
+
+// Per user, so signing in as someone else never joins the previous user's flush
+const flushesInProgress = new Map<string, Promise<number>>();
+
+// Validate (unless the service worker already did) and save every queued answer of the user.
+// Returns how many answers were saved; entries that still fail stay queued for the next attempt
+export function flushPendingAnswers(uid: string): Promise<number> {
+  let flush = flushesInProgress.get(uid);
+  if (!flush) {
+    flush = (async () => {
+      let saved = 0;
+      for (const entry of await getPendingAnswers(uid)) {
+        try {
+          const validation = entry.validation || await validateAnswer(entry.question, entry.answer, entry.language || DEFAULT_LANGUAGE, entry.reference, entry.support);
+          await recordAnswer(uid, entry.questionId, {
+            answer: entry.answer,
+            isCorrect: validation.correct,
+            mistakes: validation.mistakes,
+            mistakeDetails: validation.mistakeDetails,
+            explanation: validation.explanation,
+            generation: validation.generation,
+            hintsUsed: entry.hintsUsed,
+            answeredAt: entry.submittedAt,
+          });
+          await removePendingAnswer(entry.id);
+          saved++;
+        } catch (error) {
+          console.error('Error syncing pending answer:', error);
+          break;
+        }
+      }
+      return saved;
+    })().finally(() => {
+      flushesInProgress.delete(uid);
+    });
+    flushesInProgress.set(uid, flush);
+  }
+  return flush;
+}
@@ -0,0 +1,51 @@
+import { PracticeFocus, PracticeTheme, TargetLanguage } from '../types';
+import { GrammarFocus, LanguagePack } from '../languages';
+
+export const PRACTICE_THEME_LABELS: Record<PracticeTheme, string> = {
+  work: '💼 Work',
+  food: '🍽️ Food',
+  travel: '✈️ Travel',
+  doctor: '🩺 Doctor visit',
+  housing: '🏠 Housing',
+};
+
+export const PRACTICE_THEMES = Object.keys(PRACTICE_THEME_LABELS) as PracticeTheme[];
+
+// Filled into the generate-question prompt
+export const PRACTICE_THEME_DESCRIPTIONS: Record<PracticeTheme, string> = {
+  work: 'work (the job, colleagues, meetings, applying for a job)',
+  food: 'food (cooking, groceries, restaurants, eating habits)',
+  travel: 'travel (transport, booking a trip, asking for directions, holidays)',
+  doctor: 'a visit to the doctor (making an appointment, describing symptoms, the pharmacy)',
+  housing: 'housing (renting, moving, the neighbourhood, things that need repairing)',
+};
+
+export const EMPTY_PRACTICE_FOCUS: PracticeFocus = { themes: [], grammar: {} };
+
+export function isPracticeTheme(value: unknown): value is PracticeTheme {
+  return typeof value === 'string' && (PRACTICE_THEMES as string[]).includes(value);
+}
+
+export function getGrammarFocus(pack: LanguagePack, id: string | undefined): GrammarFocus | undefined {
+  return pack.grammarFocuses.find(focus => focus.id === id);
+}
+
+function pickRandom<T>(items: T[]): T | undefined {
+  return items.length > 0 ? items[Math.floor(Math.random() * items.length)] : undefined;
+}
+
+// One of the selected themes and grammar focuses for the next question, like pickQuestionKind does for 'mixed'.
+// Focuses the language pack no longer has are skipped
+export function pickPracticeFocus(
+  focus: PracticeFocus | undefined,
+  language: TargetLanguage,
+  pack: LanguagePack
+): { theme?: PracticeTheme; grammarFocus?: string } {
+  const grammar = (focus?.grammar[language] || []).filter(id => getGrammarFocus(pack, id));
+  const theme = pickRandom(focus?.themes || []);
+  const grammarFocus = pickRandom(grammar);
+  return {
+    ...(theme ? { theme } : {}),
+    ...(grammarFocus ? { grammarFocus } : {}),
+  };
+}
@@ -0,0 +1,155 @@
+import { Question } from '../types';
+import { isAssisted } from './hints';
+
+// YYYY-MM-DD in the user's local timezone
+export function toLocalDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function fromLocalDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Calendar-day arithmetic in local time, safe across daylight saving changes
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  const start = addDays(date, -daysSinceMonday);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+export interface DayActivity {
+  date: string; // Local date key
+  questions: number; // Distinct questions answered or reviewed that day
+  answers: number;
+}
+
+export interface AccuracyPoint {
+  weekStart: string; // Local date key of the Monday
+  accuracy: number; // First-try correct rate without hints of questions first answered that week
+  count: number;
+  assisted: number; // First answers given with hints
+}
+
+export interface ProgressStats {
+  currentStreak: number;
+  longestStreak: number;
+  activity: DayActivity[]; // Days with activity, oldest first
+  firstTryAccuracy: AccuracyPoint[]; // Oldest week first
+  averageAttempts: number; // Answers needed to get a question right, 0 without data
+}
+
+function getActivityByDay(questions: Question[]): DayActivity[] {
+  const days = new Map<string, { questionIds: Set<string>; answers: number }>();
+
+  for (const question of questions) {
+    for (const answer of question.answers || []) {
+      const key = toLocalDateKey(new Date(answer.answeredAt));
+      const day = days.get(key) || { questionIds: new Set<string>(), answers: 0 };
+      day.questionIds.add(question.id);
+      day.answers++;
+      days.set(key, day);
+    }
+  }
+
+  return Array.from(days.entries())
+    .map(([date, day]) => ({ date, questions: day.questionIds.size, answers: day.answers }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function getStreaks(activity: DayActivity[], now: Date): { currentStreak: number; longestStreak: number } {
+  let longestStreak = 0;
+  let run = 0;
+  let previousDate: Date | null = null;
+
+  for (const day of activity) {
+    const date = fromLocalDateKey(day.date);
+    run = previousDate && toLocalDateKey(addDays(previousDate, 1)) === day.date ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previousDate = date;
+  }
+
+  // A streak stays alive until the end of today even if today has no practice yet
+  const activeDays = new Set(activity.map(d => d.date));
+  let cursor = activeDays.has(toLocalDateKey(now)) ? now : addDays(now, -1);
+  let currentStreak = 0;
+  while (activeDays.has(toLocalDateKey(cursor))) {
+    currentStreak++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { currentStreak, longestStreak };
+}
+
+function getFirstTryAccuracy(questions: Question[]): AccuracyPoint[] {
+  const weeks = new Map<string, { correct: number; count: number; assisted: number }>();
+
+  for (const question of questions) {
+    const firstAnswer = question.answers?.[0];
+    if (!firstAnswer) continue;
+
+    const key = toLocalDateKey(startOfWeek(new Date(firstAnswer.answeredAt)));
+    const week = weeks.get(key) || { correct: 0, count: 0, assisted: 0 };
+    week.count++;
+    if (isAssisted(firstAnswer)) {
+      week.assisted++;
+    } else if (firstAnswer.isCorrect) {
+      week.correct++;
+    }
+    weeks.set(key, week);
+  }
+
+  return Array.from(weeks.entries())
+    .map(([weekStart, week]) => ({ weekStart, accuracy: week.correct / week.count, count: week.count, assisted: week.assisted }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart));
+}
+
+function getAverageAttempts(questions: Question[]): number {
+  const attempts = questions
+    .map(q => (q.answers || []).findIndex(a => a.isCorrect))
+    .filter(index => index !== -1)
+    .map(index => index + 1);
+
+  if (attempts.length === 0) return 0;
+  return attempts.reduce((sum, n) => sum + n, 0) / attempts.length;
+}
+
+export function getProgressStats(questions: Question[], now: Date = new Date()): ProgressStats {
+  const activity = getActivityByDay(questions);
+  return {
+    ...getStreaks(activity, now),
+    activity,
+    firstTryAccuracy: getFirstTryAccuracy(questions),
+    averageAttempts: getAverageAttempts(questions),
+  };
+}
+
+// Heatmap grid: one column per week (Monday first), ending with the current week
+export function getHeatmapWeeks(activity: DayActivity[], weeks: number, now: Date = new Date()): (DayActivity | null)[][] {
+  const byDate = new Map(activity.map(d => [d.date, d]));
+  const today = toLocalDateKey(now);
+  const firstMonday = addDays(startOfWeek(now), -(weeks - 1) * 7);
+
+  const columns: (DayActivity | null)[][] = [];
+  for (let week = 0; week < weeks; week++) {
+    const column: (DayActivity | null)[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const key = toLocalDateKey(addDays(firstMonday, week * 7 + weekday));
+      // Days after today are left empty
+      column.push(key > today ? null : byDate.get(key) || { date: key, questions: 0, answers: 0 });
+    }
+    columns.push(column);
+  }
+  return columns;
+}
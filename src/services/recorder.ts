@@ -0,0 +1,56 @@
+// Microphone recording with MediaRecorder
+
+// Formats the speech model accepts, in order of preference
+const PREFERRED_MIME_TYPES = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export const MAX_RECORDING_MS = 60 * 1000;
+
+export interface Recording {
+  stop(): Promise<Blob>;
+  cancel(): void;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// Asks for microphone access and starts recording. Recording stops on its own after MAX_RECORDING_MS
+export async function startRecording(onAutoStop?: (recording: Blob) => void): Promise<Recording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+    };
+  });
+
+  const timeout = setTimeout(async () => {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      onAutoStop?.(await stopped);
+    }
+  }, MAX_RECORDING_MS);
+
+  recorder.start();
+
+  return {
+    stop() {
+      clearTimeout(timeout);
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    },
+    cancel() {
+      clearTimeout(timeout);
+      chunks.length = 0;
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { PushSubscriptionData, ReminderSettings } from '../types';
+import { updateUserDocument } from './firestore';
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window && !!VAPID_PUBLIC_KEY;
+}
+
+// VAPID keys are URL-safe base64, PushManager expects raw bytes
+function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function subscribeToPush(): Promise<PushSubscriptionData> {
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  const subscription = existing || await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+  });
+  return subscription.toJSON() as PushSubscriptionData;
+}
+
+// The server works out each user's local time from this IANA name, e.g. "Europe/Amsterdam"
+export function isValidTimezone(timezone: string | undefined): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function enableReminders(
+  uid: string,
+  time: string,
+  dailyGoal: number
+): Promise<ReminderSettings> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
+  }
+
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!isValidTimezone(timezone)) {
+    throw new Error('Your browser did not report a valid timezone');
+  }
+
+  const reminders: ReminderSettings = {
+    enabled: true,
+    time,
+    timezone,
+    dailyGoal,
+    subscription: await subscribeToPush(),
+  };
+  await updateUserDocument(uid, { reminders });
+  return reminders;
+}
+
+export async function disableReminders(uid: string, current: ReminderSettings): Promise<void> {
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  await subscription?.unsubscribe();
+
+  const { subscription: _subscription, ...rest } = current;
+  await updateUserDocument(uid, { reminders: { ...rest, enabled: false } });
+}
@@ -0,0 +1,93 @@
+import { Answer, Question, ReviewSchedule } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// A session is a run of answers that ends with the first correct one.
+// The first session is the initial learning, every later one is a review.
+function splitIntoSessions(answers: Answer[]): Answer[][] {
+  const sessions: Answer[][] = [];
+  let current: Answer[] = [];
+
+  for (const answer of answers) {
+    current.push(answer);
+    if (answer.isCorrect) {
+      sessions.push(current);
+      current = [];
+    }
+  }
+
+  // Trailing incorrect answers form an unfinished session and are not graded yet
+  return sessions;
+}
+
+// Map a session to an SM-2 quality grade (0-5)
+// Right on the first try is a perfect recall, one retry is a hard recall,
+// more retries count as a lapse
+function getSessionQuality(session: Answer[]): number {
+  const wrongAttempts = session.length - 1;
+  if (wrongAttempts === 0) return 5;
+  if (wrongAttempts === 1) return 3;
+  return 2;
+}
+
+export function getReviewSchedule(question: Question): ReviewSchedule | null {
+  const sessions = splitIntoSessions(question.answers || []);
+  if (sessions.length === 0) return null;
+
+  let ease = INITIAL_EASE;
+  let interval = 0;
+  let repetitions = 0;
+  let lastReviewedAt = '';
+
+  for (const session of sessions) {
+    const quality = getSessionQuality(session);
+
+    if (quality < 3) {
+      repetitions = 0;
+      interval = 1;
+    } else {
+      repetitions += 1;
+      if (repetitions === 1) {
+        interval = 1;
+      } else if (repetitions === 2) {
+        interval = 6;
+      } else {
+        interval = Math.round(interval * ease);
+      }
+    }
+
+    ease = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+    lastReviewedAt = session[session.length - 1].answeredAt;
+  }
+
+  const dueAt = new Date(new Date(lastReviewedAt).getTime() + interval * DAY_MS).toISOString();
+
+  return { ease, interval, repetitions, lastReviewedAt, dueAt };
+}
+
+// A question is in review when it has been answered correctly before
+// and the latest answer is wrong, so the current session is still open
+export function isReviewInProgress(question: Question): boolean {
+  const answers = question.answers || [];
+  if (answers.length === 0) return false;
+  return !answers[answers.length - 1].isCorrect && answers.some(a => a.isCorrect);
+}
+
+// Value for Question.reviewDueAt: open reviews stay due, unscheduled questions get none
+export function getReviewDueAt(question: Question): string | undefined {
+  if (isReviewInProgress(question)) {
+    return question.answers[question.answers.length - 1].answeredAt;
+  }
+  return getReviewSchedule(question)?.dueAt;
+}
+
+export function isQuestionDue(question: Question, now: Date = new Date()): boolean {
+  if (isReviewInProgress(question)) return true;
+
+  const schedule = getReviewSchedule(question);
+  if (!schedule) return false;
+
+  return new Date(schedule.dueAt).getTime() <= now.getTime();
+}
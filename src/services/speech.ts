@@ -0,0 +1,115 @@
+// Text-to-speech with the browser's Web Speech API
+import { LanguagePack } from '../languages';
+
+export const SPEECH_RATES = [0.6, 0.8, 1, 1.2];
+export const DEFAULT_SPEECH_RATE = 1;
+
+export interface ConversationLine {
+  speaker: string; // e.g. "Person A", empty for lines without a speaker
+  text: string;
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+function normalizeLang(lang: string): string {
+  return lang.toLowerCase().replace('_', '-');
+}
+
+// Voices load asynchronously in most browsers, the list is empty until `voiceschanged` fires
+export function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  if (!isSpeechSupported()) return Promise.resolve([]);
+
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const timeout = setTimeout(() => resolve(window.speechSynthesis.getVoices()), 2000);
+    window.speechSynthesis.addEventListener('voiceschanged', () => {
+      clearTimeout(timeout);
+      resolve(window.speechSynthesis.getVoices());
+    }, { once: true });
+  });
+}
+
+// Voices for a language, preferred regions first (e.g. nl-NL before nl-BE), local voices before network ones
+export function getVoicesForLanguage(voices: SpeechSynthesisVoice[], pack: LanguagePack): SpeechSynthesisVoice[] {
+  const prefix = pack.code.toLowerCase();
+  const preferred = pack.speech.preferredVoiceLangs.map(normalizeLang);
+  const rank = (voice: SpeechSynthesisVoice) => {
+    const index = preferred.indexOf(normalizeLang(voice.lang));
+    return index === -1 ? preferred.length : index;
+  };
+
+  return voices
+    .filter(v => normalizeLang(v.lang).split('-')[0] === prefix)
+    .sort((a, b) => rank(a) - rank(b) || Number(b.localService) - Number(a.localService));
+}
+
+// Split a "Person A: ... / Person B: ..." conversation into lines, dropping markdown
+export function parseConversation(markdown: string): ConversationLine[] {
+  return markdown
+    .split('\n')
+    .map(line => line.replace(/[*_`#>]/g, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const match = line.match(/^(Person [A-Z])\s*:\s*(.+)$/i);
+      return match ? { speaker: match[1], text: match[2] } : { speaker: '', text: line };
+    });
+}
+
+// Bumped on every stop so a conversation being read knows it was interrupted
+let playbackId = 0;
+
+export function stopSpeaking() {
+  playbackId++;
+  if (isSpeechSupported()) {
+    window.speechSynthesis.cancel();
+  }
+}
+
+interface SpeakOptions {
+  voice?: SpeechSynthesisVoice;
+  lang?: string; // Used when no voice is given, defaults to Dutch
+  rate?: number;
+  pitch?: number;
+}
+
+// Resolves when the utterance has finished or was cancelled
+export function speak(text: string, options: SpeakOptions = {}): Promise<void> {
+  if (!isSpeechSupported()) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const utterance = new SpeechSynthesisUtterance(text.replace(/[*_`#>]/g, ''));
+    utterance.lang = options.voice?.lang || options.lang || 'nl-NL';
+    if (options.voice) utterance.voice = options.voice;
+    utterance.rate = options.rate ?? DEFAULT_SPEECH_RATE;
+    utterance.pitch = options.pitch ?? 1;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+}
+
+// Read a conversation line by line with a distinct voice per speaker.
+// With a single voice available, speakers are told apart by pitch.
+export async function speakConversation(
+  lines: ConversationLine[],
+  voices: SpeechSynthesisVoice[],
+  rate: number = DEFAULT_SPEECH_RATE,
+  lang?: string
+): Promise<void> {
+  stopSpeaking();
+  const currentPlayback = playbackId;
+  const speakers = Array.from(new Set(lines.map(l => l.speaker).filter(Boolean)));
+
+  for (const line of lines) {
+    const speakerIndex = Math.max(0, speakers.indexOf(line.speaker));
+    const voice = voices.length > 0 ? voices[speakerIndex % voices.length] : undefined;
+    const pitch = voices.length > 1 ? 1 : 1 + (speakerIndex % 2 === 0 ? -0.15 : 0.25);
+
+    await speak(line.text, { voice, lang, rate, pitch });
+    if (playbackId !== currentPlayback) return;
+  }
+}
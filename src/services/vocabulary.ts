@@ -0,0 +1,57 @@
+import { PartOfSpeech, TargetLanguage, VocabularyEntry } from '../types';
+import { DEFAULT_LANGUAGE } from '../languages';
+
+export const PART_OF_SPEECH_LABELS: Record<PartOfSpeech, string> = {
+  noun: 'Noun',
+  verb: 'Verb',
+  adjective: 'Adjective',
+  adverb: 'Adverb',
+  preposition: 'Preposition',
+  pronoun: 'Pronoun',
+  conjunction: 'Conjunction',
+  numeral: 'Numeral',
+  phrase: 'Phrase',
+  other: 'Other',
+};
+
+export const PARTS_OF_SPEECH = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'preposition',
+  'pronoun',
+  'conjunction',
+  'numeral',
+  'phrase',
+  'other',
+] as const satisfies readonly PartOfSpeech[];
+
+// One entry per lemma and part of speech, e.g. "bank" the noun and "bank" the verb stay apart.
+// Other languages get a prefix, Dutch ids predate them. Firestore document ids can't contain
+// slashes, hence the encoding
+export function getVocabularyEntryId(lemma: string, partOfSpeech: PartOfSpeech, language: TargetLanguage = DEFAULT_LANGUAGE): string {
+  const prefix = language === DEFAULT_LANGUAGE ? '' : `${language}_`;
+  return encodeURIComponent(`${prefix}${lemma.trim().toLowerCase()}_${partOfSpeech}`);
+}
+
+// Noun with its article, e.g. "de fiets"
+export function formatLemma(entry: Pick<VocabularyEntry, 'lemma' | 'article'>): string {
+  return entry.article ? `${entry.article} ${entry.lemma}` : entry.lemma;
+}
+
+// Case-insensitive match on the word, its plural or the translation, sorted in the order of the entries' language
+export function searchVocabulary(
+  entries: VocabularyEntry[],
+  search: string,
+  partOfSpeech: PartOfSpeech | null = null
+): VocabularyEntry[] {
+  const term = search.trim().toLowerCase();
+  return entries
+    .filter(e => !partOfSpeech || e.partOfSpeech === partOfSpeech)
+    .filter(e => !term
+      || e.lemma.toLowerCase().includes(term)
+      || e.plural?.toLowerCase().includes(term)
+      || e.translation.toLowerCase().includes(term))
+    .sort((a, b) => a.lemma.localeCompare(b.lemma, a.language ?? DEFAULT_LANGUAGE));
+}
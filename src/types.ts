@@ -1,8 +1,83 @@
+// ISO 639-1 code of the language being learned, see src/languages
+export type TargetLanguage = 'nl' | 'de' | 'es';
+
+// ISO 639-1 code of the language the learner reads feedback in, see src/languages/support.ts
+export type SupportLanguage = 'en' | 'ru' | 'tr' | 'uk' | 'ar' | 'pl' | 'pt' | 'fr' | 'zh';
+
+export type MistakeCategory =
+  | 'word-order'
+  | 'article'
+  | 'verb-conjugation'
+  | 'spelling'
+  | 'vocabulary'
+  | 'preposition'
+  | 'other';
+
+export interface Mistake {
+  category: MistakeCategory;
+  span: string; // Offending part of the answer, as the student wrote it
+  correction: string;
+}
+
+export type PartOfSpeech =
+  | 'noun'
+  | 'verb'
+  | 'adjective'
+  | 'adverb'
+  | 'preposition'
+  | 'pronoun'
+  | 'conjunction'
+  | 'numeral'
+  | 'phrase'
+  | 'other';
+
+// A word as returned by the extract-vocabulary endpoint
+export interface ExtractedWord {
+  lemma: string; // Dictionary form, e.g. "lopen" for "liep"
+  article?: string; // Nouns only, one of the language pack's articles
+  plural?: string; // Nouns only
+  partOfSpeech: PartOfSpeech;
+  translation: string;
+}
+
+// Glossary entry, stored in the users/{uid}/vocabulary subcollection
+export interface VocabularyEntry extends ExtractedWord {
+  id: string;
+  language?: TargetLanguage; // Absent on Dutch entries
+  sourceQuestionIds: string[]; // Questions the word was met in
+  lastSeenAt: string;
+}
+
+export interface PronunciationIssue {
+  word: string; // As transcribed
+  issue: string; // What sounded off
+  tip: string; // How to say it better
+}
+
+export interface PronunciationFeedback {
+  score: number; // 1 (hard to understand) to 5 (native-like)
+  summary: string;
+  issues: PronunciationIssue[];
+  generation?: GenerationInfo;
+}
+
+// Which prompt revision and model produced a piece of generated content, see server/prompts.ts.
+// Absent on content generated before prompts were versioned
+export interface GenerationInfo {
+  promptId: string;
+  promptVersion: number;
+  model: string;
+}
+
 export interface Answer {
   answer: string;
   isCorrect: boolean;
   mistakes: string;
+  mistakeDetails?: Mistake[]; // Absent on answers validated before mistakes were categorized
   explanation: string;
+  pronunciation?: PronunciationFeedback; // Only on spoken answers, `answer` holds the transcript
+  generation?: GenerationInfo; // Of the validation, absent on answers graded in the browser
+  hintsUsed?: number; // Hints revealed before answering, absent on unassisted and older answers
   answeredAt: string;
 }
 
@@ -22,31 +97,197 @@ export interface QuestionV1 {
 }
 
 // Current question format
+export type QuestionKind = 'open' | 'multiple-choice' | 'cloze' | 'translation' | 'reorder';
+
+// Steps of the hint ladder, each one gives away a bit more, see src/services/hints.ts
+export type HintKind = 'vocabulary' | 'structure' | 'skeleton';
+
+// Everyday situations new questions can be set in, see src/services/practice.ts
+export type PracticeTheme = 'work' | 'food' | 'travel' | 'doctor' | 'housing';
+
+// What new questions practise. Empty lists leave it to the model;
+// grammar focuses are ids from the language pack, so they are kept per language
+export interface PracticeFocus {
+  themes: PracticeTheme[];
+  grammar: Partial<Record<TargetLanguage, string[]>>;
+}
+
+export interface MultipleChoiceExercise {
+  kind: 'multiple-choice';
+  options: string[];
+  correctIndex: number;
+}
+
+// Fill in the blank: the sentence reads `${before} ___ ${after}`
+export interface ClozeExercise {
+  kind: 'cloze';
+  before: string;
+  after: string;
+  answer: string;
+  hint?: string; // e.g. the infinitive of the missing verb
+}
+
+// Translate EN→NL
+export interface TranslationExercise {
+  kind: 'translation';
+  source: string; // English sentence
+  reference: string; // One correct translation into the target language
+}
+
+// Put shuffled words into a correct sentence
+export interface ReorderExercise {
+  kind: 'reorder';
+  words: string[]; // Shuffled
+  solution: string;
+}
+
+export type Exercise = MultipleChoiceExercise | ClozeExercise | TranslationExercise | ReorderExercise;
+
 export interface Question {
   id: string;
   status: 'none' | 'asked' | 'answered';
-  question: string;
+  question: string; // Full question text, also for structured exercises
+  language?: TargetLanguage; // Absent on Dutch questions
+  exercise?: Exercise; // Absent on open questions
+  theme?: PracticeTheme; // Picked from the practice focus when the question was generated
+  grammarFocus?: string; // Id of a grammar focus of the question's language pack
   answers: Answer[]; // Array of all answers submitted
   questionExplanation?: string; // Explanation of what the question means
   contextConversation?: string; // Conversation context leading to the question
+  generation?: GenerationInfo; // Of the question itself
+  explanationGeneration?: GenerationInfo;
+  contextGeneration?: GenerationInfo;
   askedAt?: string;
+  reviewDueAt?: string; // Denormalized from the review schedule so due questions can be queried
 }
 
 export interface DailyQuestions {
   [date: string]: {
     askedQuestionIds: string[];
     answeredQuestionIds: string[];
+    reviewedQuestionIds?: string[]; // Questions brought back by the review scheduler
   };
 }
 
+// Portable copy of a learner's history for backups and moving between accounts, see src/services/backup.ts
+export interface LearningBackup {
+  format: 'learning-backup';
+  version: 1; // Bumped on incompatible changes, import rejects versions it doesn't know
+  exportedAt: string;
+  questions: Question[]; // Including their answers
+  dailyQuestions: DailyQuestions;
+}
+
+// Spaced-repetition state derived from a question's answers timeline
+export interface ReviewSchedule {
+  ease: number; // SM-2 ease factor, never below 1.3
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  lastReviewedAt: string;
+  dueAt: string;
+}
+
+// Number of mistakes per category across all answers of a user
+export type MistakeStats = Partial<Record<MistakeCategory, number>>;
+
+export interface LevelChange {
+  from: string;
+  to: string;
+  reason: 'manual' | 'promotion' | 'demotion';
+  changedAt: string;
+}
+
+// Web Push subscription as returned by PushSubscription.toJSON()
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  time: string; // HH:MM in the user's timezone
+  timezone: string; // IANA name, e.g. Europe/Amsterdam
+  dailyGoal: number; // Questions per day; no reminder once reached
+  subscription?: PushSubscriptionData;
+  lastSentDate?: string; // Local date of the last reminder, at most one per day
+}
+
+export interface ListeningSettings {
+  listenOnly: boolean; // Hide the question text until it has been answered
+  rate: number; // Speech rate, 1 is normal speed
+}
+
+export interface SupportLanguageSettings {
+  language: SupportLanguage; // Explanations and feedback are written in this language
+  showBoth: boolean; // Write them in the target language first, followed by a translation
+}
+
+// A question with the learner's latest answer, as sent to the API
+export interface Exchange {
+  question: string;
+  answer: string;
+  correct?: boolean;
+  mistakes?: string; // See formatMistakes
+}
+
+// Rolling summary of the exchanges that no longer fit in the generate-question prompt
+export interface LearnerProfile {
+  topics: string[]; // Topics and situations already practised
+  weaknesses: string[]; // Recurring mistakes
+  mastered: string[]; // Structures used correctly again and again
+  summarizedUpTo: string; // answeredAt of the newest exchange folded into the profile
+  updatedAt: string;
+  generation?: GenerationInfo;
+}
+
+// Questions live in the users/{uid}/questions subcollection
 export interface UserDocument {
-  questions: Question[];
   dailyQuestions: DailyQuestions;
   level: string;
+  levelHistory?: LevelChange[];
+  autoLevel?: boolean; // Apply promotions/demotions without asking
+  mistakeStats?: MistakeStats;
+  reminders?: ReminderSettings;
+  listening?: ListeningSettings;
+  questionKind?: QuestionKind | 'mixed'; // Kind of new questions, 'mixed' picks one at random
+  targetLanguage?: TargetLanguage; // Language of new questions, Dutch when absent
+  support?: SupportLanguageSettings; // Absent keeps the default: explanations in the target language, English when too hard
+  learnerProfiles?: Partial<Record<TargetLanguage, LearnerProfile>>;
+  practiceFocus?: PracticeFocus;
+}
+
+// Legacy user document format (V1) with every question stored inline
+export interface UserDocumentV1 extends UserDocument {
+  questions: (Question | QuestionV1)[];
 }
 
 export interface ValidationResponse {
   correct: boolean;
   mistakes: string;
+  mistakeDetails: Mistake[];
   explanation: string;
+  generation?: GenerationInfo; // Absent when graded in the browser
+}
+
+export interface PronunciationResponse {
+  transcript: string;
+  pronunciation: PronunciationFeedback;
+}
+
+// Answer submitted while offline, waiting in IndexedDB to be validated and saved
+export interface PendingAnswer {
+  id: string;
+  uid: string;
+  questionId: string;
+  question: string;
+  answer: string;
+  reference?: string; // Expected answer of the exercise, see validateAnswer
+  language?: TargetLanguage;
+  support?: SupportLanguageSettings;
+  hintsUsed?: number;
+  submittedAt: string; // Becomes Answer.answeredAt once saved
+  validation?: ValidationResponse; // Filled in by the service worker during background sync
 }
@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/assess-pronunciation';
+import { PROMPTS, getGenerationInfo } from '../../server/prompts';
+
+// Fixtures are keyed on a hash of the audio, the bytes don't need to be a real recording
+const audio = Buffer.from('recorded answer').toString('base64');
+
+describe('assess-pronunciation', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without audio', async () => {
+    const { status, body } = await callHandler(handler, { body: { question: 'Hoe heet je?', mimeType: 'audio/webm' } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing question, audio or mimeType');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', audio, mimeType: 'audio/webm', language: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('400 for a format other than audio', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', audio, mimeType: 'video/mp4' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported audio format');
+  });
+
+  test('413 for a recording that is too long', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', audio: 'a'.repeat(4_000_001), mimeType: 'audio/webm' },
+    });
+    assert.equal(status, 413);
+    assert.equal(body.error, 'Recording is too long');
+  });
+
+  test('200 with the transcript and pronunciation feedback', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', audio, mimeType: 'audio/webm;codecs=opus' },
+    });
+    assert.equal(status, 200);
+    assert.ok(body.transcript.length > 0);
+    assert.ok(body.pronunciation.score >= 1 && body.pronunciation.score <= 5);
+    assert.ok(Array.isArray(body.pronunciation.issues));
+    assert.deepEqual(body.pronunciation.generation, getGenerationInfo(PROMPTS.assessPronunciation));
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Replay: empty response', audio, mimeType: 'audio/webm' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to assess pronunciation');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('500 when the model returns invalid JSON', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Replay: invalid JSON', audio, mimeType: 'audio/webm' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to assess pronunciation');
+    assert.ok(loggedError() instanceof SyntaxError);
+  });
+});
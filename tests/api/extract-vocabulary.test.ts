@@ -0,0 +1,53 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/extract-vocabulary';
+
+describe('extract-vocabulary', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without a question', async () => {
+    const { status, body } = await callHandler(handler, { body: { answer: 'Ik woon in Utrecht.' } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing question');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Waar woon je?', language: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('200 with each word once and only articles of the language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Waar woon je?', answer: 'Ik woon in een huis in Utrecht.' },
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(body.words, [
+      { lemma: 'wonen', partOfSpeech: 'verb', translation: 'to live' },
+      { lemma: 'huis', article: 'het', plural: 'huizen', partOfSpeech: 'noun', translation: 'house' },
+      { lemma: 'stad', plural: 'steden', partOfSpeech: 'noun', translation: 'city' },
+    ]);
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, { body: { question: 'Replay: empty response' } });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to extract vocabulary');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('500 when the model returns invalid JSON', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, { body: { question: 'Replay: invalid JSON' } });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to extract vocabulary');
+    assert.ok(loggedError() instanceof SyntaxError);
+  });
+});
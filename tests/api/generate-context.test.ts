@@ -0,0 +1,85 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/generate-context';
+import { PROMPTS, getGenerationInfo } from '../../server/prompts';
+
+describe('generate-context', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without a level', async () => {
+    const { status, body } = await callHandler(handler, { body: { question: 'Hoe heet je?' } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing question or level');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', level: 'A1', language: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('400 for an unsupported support language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', level: 'A1', support: { language: 'constructor', showBoth: true } },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported support language');
+  });
+
+  test('200 with the conversation', async () => {
+    const { status, body } = await callHandler(handler, { body: { question: 'Hoe heet je?', level: 'A1' } });
+    assert.equal(status, 200);
+    assert.ok(body.conversation.length > 0);
+    assert.deepEqual(body.generation, getGenerationInfo(PROMPTS.generateContext));
+  });
+
+  test('200 streaming the conversation as it is generated', async () => {
+    const { status, events } = await callHandler(handler, {
+      body: { question: 'Waar woon je?', level: 'A1', stream: true },
+    });
+    assert.equal(status, 200);
+    const chunks = events.filter(e => e.event === 'chunk');
+    const done = events[events.length - 1];
+    assert.ok(chunks.length > 1);
+    assert.equal(done.event, 'done');
+    assert.equal(done.data.text, chunks.map(e => e.data.text).join('').trim());
+    assert.deepEqual(done.data.generation, getGenerationInfo(PROMPTS.generateContext));
+  });
+
+  test('200 streaming a repeated question from the cache in one chunk', async () => {
+    const first = await callHandler(handler, { body: { question: 'Wat heb je gisteren gedaan?', level: 'A1' } });
+    const { status, events } = await callHandler(handler, {
+      body: { question: 'Wat heb je gisteren gedaan?', level: 'A1', stream: true },
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(events.map(e => e.event), ['chunk', 'done']);
+    assert.equal(events[1].data.text, first.body.conversation);
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Replay: empty response', level: 'A1' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to generate context');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('error event when the stream returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, events } = await callHandler(handler, {
+      body: { question: 'Replay: empty response', level: 'A1', stream: true },
+    });
+    // Streams start with a 200, failures travel in-band
+    assert.equal(status, 200);
+    assert.deepEqual(events, [{ event: 'error', data: { error: 'Failed to generate context' } }]);
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+});
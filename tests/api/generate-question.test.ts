@@ -0,0 +1,144 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/generate-question';
+import { PROMPTS, getGenerationInfo } from '../../server/prompts';
+
+const recentExchanges = [{ question: 'Hoe heet je?', answer: 'Ik heet Sam.', correct: true }];
+
+describe('generate-question', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without the current level', async () => {
+    const { status, body } = await callHandler(handler, { body: { recentExchanges } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing required fields');
+  });
+
+  test('400 for malformed exchanges', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges: [{ question: 42 }], currentLevel: 'A1' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Invalid or too many exchanges');
+  });
+
+  test('400 for an invalid learner profile', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', profile: { topics: 'travel' } },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Invalid learner profile');
+  });
+
+  test('400 for an unknown question kind', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', kind: 'essay' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unknown question kind');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', language: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('400 for an unknown theme', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', theme: 'toString' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unknown theme');
+  });
+
+  test('400 for an unknown grammar focus', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', grammarFocus: 'subjunctive' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unknown grammar focus');
+  });
+
+  test('200 with an open question', async () => {
+    const { status, body } = await callHandler(handler, { body: { recentExchanges, currentLevel: 'A1' } });
+    assert.equal(status, 200);
+    assert.ok(body.question.length > 0);
+    assert.equal(body.exercise, undefined);
+    assert.deepEqual(body.generation, getGenerationInfo(PROMPTS.generateQuestion));
+  });
+
+  test('200 with a multiple choice exercise', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', kind: 'multiple-choice' },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.exercise.kind, 'multiple-choice');
+    assert.ok(body.exercise.correctIndex < body.exercise.options.length);
+    assert.deepEqual(body.generation, getGenerationInfo(PROMPTS.generateExercise));
+  });
+
+  test('200 with a cloze exercise whose sentence is in the question', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', kind: 'cloze' },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.exercise.kind, 'cloze');
+    assert.ok(body.question.includes(body.exercise.before));
+  });
+
+  test('200 with a translation exercise', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', kind: 'translation' },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.exercise.kind, 'translation');
+    assert.ok(body.question.includes(body.exercise.source));
+  });
+
+  test('200 with a reorder exercise whose words are in the question', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges, currentLevel: 'A1', kind: 'reorder' },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.exercise.kind, 'reorder');
+    assert.deepEqual([...body.exercise.words].sort(), body.exercise.solution.replace(/[.!?]+$/, '').split(' ').sort());
+    assert.ok(body.question.endsWith(body.exercise.words.join(' / ')));
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges: [{ question: 'Replay: empty response', answer: 'Ja.' }], currentLevel: 'A1' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to generate question');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('500 when an exercise is invalid JSON', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges: [{ question: 'Replay: invalid JSON', answer: 'Ja.' }], currentLevel: 'A1', kind: 'multiple-choice' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to generate question');
+    assert.ok(loggedError() instanceof SyntaxError);
+  });
+
+  test('500 when an exercise is empty', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { recentExchanges: [{ question: 'Replay: empty response', answer: 'Ja.' }], currentLevel: 'A1', kind: 'cloze' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to generate question');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+});
@@ -0,0 +1,12 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler } from './helpers';
+import handler from '../../api/health';
+
+describe('health', () => {
+  test('200 without authentication', async () => {
+    const { status, body } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 200);
+    assert.equal(body.status, 'ok');
+  });
+});
@@ -0,0 +1,85 @@
+import type { TestContext } from 'node:test';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// The handlers run in-process without token checks, with in-memory rate limits and cache,
+// and model calls are answered from the recorded fixtures in fixtures/llm
+process.env.API_AUTH_DISABLED = 'true';
+process.env.LLM_FIXTURES = process.env.LLM_FIXTURES || 'replay';
+delete process.env.FIREBASE_SERVICE_ACCOUNT;
+
+export interface ServerEvent {
+  event: string;
+  data: any;
+}
+
+export interface HandlerResponse {
+  status: number;
+  body: any;
+  headers: Record<string, string>;
+  events: ServerEvent[]; // Of streaming responses, see server/sse.ts
+}
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+interface HandlerRequest {
+  method?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+}
+
+function parseEvents(raw: string): ServerEvent[] {
+  return raw
+    .split('\n\n')
+    .filter(Boolean)
+    .map(block => ({
+      event: block.match(/^event: (.*)$/m)?.[1] || '',
+      data: JSON.parse(block.match(/^data: (.*)$/m)?.[1] || 'null'),
+    }));
+}
+
+// Call a Vercel handler with a minimal request and a response that records what was sent
+export async function callHandler(
+  handler: Handler,
+  { method = 'POST', body = {}, headers = {}, query = {} }: HandlerRequest = {}
+): Promise<HandlerResponse> {
+  const response: HandlerResponse = { status: 200, body: undefined, headers: {}, events: [] };
+  let stream = '';
+  const res = {
+    status(code: number) {
+      response.status = code;
+      return res;
+    },
+    json(data: unknown) {
+      response.body = data;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      response.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    flushHeaders() {},
+    write(chunk: string) {
+      stream += chunk;
+      return true;
+    },
+    end() {
+      response.events = parseEvents(stream);
+      return res;
+    },
+  };
+
+  await handler({ method, headers, body, query } as unknown as VercelRequest, res as unknown as VercelResponse);
+  return response;
+}
+
+// Keeps the errors handlers log out of the test output. Returns a getter for the last logged error,
+// so a 500 test can check it failed for the intended reason and not e.g. a missing fixture
+export function captureLoggedError(t: TestContext): () => unknown {
+  const logged = t.mock.method(console, 'error', () => {});
+  return () => {
+    const calls = logged.mock.calls;
+    const args = calls.length > 0 ? calls[calls.length - 1].arguments : [];
+    return args[args.length - 1];
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/hint';
+import { PROMPTS, getGenerationInfo } from '../../server/prompts';
+
+describe('hint', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without a level', async () => {
+    const { status, body } = await callHandler(handler, { body: { question: 'Hoe heet je?', kind: 'vocabulary' } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing question or level');
+  });
+
+  test('400 for an unknown hint kind', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', level: 'A1', kind: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unknown hint kind');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', level: 'A1', kind: 'vocabulary', language: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('400 for an unsupported support language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', level: 'A1', kind: 'vocabulary', support: { language: 'xx', showBoth: false } },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported support language');
+  });
+
+  test('200 with each step of the ladder', async () => {
+    const vocabulary = await callHandler(handler, { body: { question: 'Hoe heet je?', level: 'A1', kind: 'vocabulary' } });
+    assert.equal(vocabulary.status, 200);
+    assert.equal(vocabulary.body.kind, 'vocabulary');
+    assert.deepEqual(vocabulary.body.generation, getGenerationInfo(PROMPTS.hint));
+
+    // The later steps come from the cached response of the first one
+    const skeleton = await callHandler(handler, { body: { question: 'Hoe heet je?', level: 'A1', kind: 'skeleton' } });
+    assert.equal(skeleton.status, 200);
+    assert.equal(skeleton.body.kind, 'skeleton');
+    assert.equal(skeleton.body.hint, 'Ik ___ ...');
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Replay: empty response', level: 'A1', kind: 'vocabulary' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to generate hint');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('500 when the model returns invalid JSON', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Replay: invalid JSON', level: 'A1', kind: 'vocabulary' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to generate hint');
+    assert.ok(loggedError() instanceof SyntaxError);
+  });
+});
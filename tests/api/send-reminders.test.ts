@@ -0,0 +1,18 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler } from './helpers';
+import handler from '../../api/send-reminders';
+
+// Sending needs Firestore, only the checks before it run here
+describe('send-reminders', () => {
+  test('405 for other methods than GET', async () => {
+    const { status } = await callHandler(handler, { method: 'POST' });
+    assert.equal(status, 405);
+  });
+
+  test('401 without the cron secret', async () => {
+    process.env.CRON_SECRET = 'test-secret';
+    const { status } = await callHandler(handler, { method: 'GET', headers: { authorization: 'Bearer wrong' } });
+    assert.equal(status, 401);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/update-learner-profile';
+import { PROMPTS, getGenerationInfo } from '../../server/prompts';
+import { PROFILE_BATCH_SIZE } from '../../src/services/learnerProfile';
+
+const exchanges = [
+  { question: 'Hoe heet je?', answer: 'Ik heet Sam.', correct: true },
+  { question: 'Waar woon je?', answer: 'Ik woon op Utrecht.', correct: false, mistakes: 'preposition: "op" → "in"' },
+];
+
+describe('update-learner-profile', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without exchanges', async () => {
+    const { status, body } = await callHandler(handler, { body: { exchanges: [] } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing exchanges');
+  });
+
+  test('400 for more exchanges than one batch', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { exchanges: Array.from({ length: PROFILE_BATCH_SIZE + 1 }, () => exchanges[0]) },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Invalid or too many exchanges');
+  });
+
+  test('400 for an invalid learner profile', async () => {
+    const { status, body } = await callHandler(handler, { body: { exchanges, profile: { topics: [] } } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Invalid learner profile');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, { body: { exchanges, language: 'constructor' } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('200 with the profile lists', async () => {
+    const { status, body } = await callHandler(handler, { body: { exchanges } });
+    assert.equal(status, 200);
+    assert.deepEqual(body.topics, ['introducing yourself', 'where you live']);
+    assert.deepEqual(body.weaknesses, ['prepositions of place']);
+    assert.deepEqual(body.mastered, []);
+    assert.deepEqual(body.generation, getGenerationInfo(PROMPTS.updateLearnerProfile));
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { exchanges: [{ question: 'Replay: empty response', answer: 'Ja.' }] },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to update learner profile');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('500 when the model returns invalid JSON', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { exchanges: [{ question: 'Replay: invalid JSON', answer: 'Ja.' }] },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to update learner profile');
+    assert.ok(loggedError() instanceof SyntaxError);
+  });
+});
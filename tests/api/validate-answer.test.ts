@@ -0,0 +1,66 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { callHandler, captureLoggedError } from './helpers';
+import handler from '../../api/validate-answer';
+import { PROMPTS, getGenerationInfo } from '../../server/prompts';
+
+describe('validate-answer', () => {
+  test('405 for other methods than POST', async () => {
+    const { status } = await callHandler(handler, { method: 'GET' });
+    assert.equal(status, 405);
+  });
+
+  test('400 without an answer', async () => {
+    const { status, body } = await callHandler(handler, { body: { question: 'Hoe heet je?' } });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Missing question or answer');
+  });
+
+  test('400 for an unsupported language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', answer: 'Ik heet Sam.', language: 'constructor' },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported language');
+  });
+
+  test('400 for an unsupported support language', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', answer: 'Ik heet Sam.', support: { language: 'xx', showBoth: false } },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Unsupported support language');
+  });
+
+  test('200 with the verdict, formatted mistakes and generation info', async () => {
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Hoe heet je?', answer: 'Ik heet Sam.' },
+    });
+    assert.equal(status, 200);
+    assert.equal(typeof body.correct, 'boolean');
+    assert.ok(Array.isArray(body.mistakeDetails));
+    assert.equal(typeof body.mistakes, 'string');
+    assert.equal(typeof body.explanation, 'string');
+    assert.deepEqual(body.generation, getGenerationInfo(PROMPTS.validateAnswer));
+  });
+
+  test('500 when the model returns no text', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Waar woon je?', answer: 'Replay: empty response' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to validate answer');
+    assert.equal((loggedError() as Error).message, 'No response text from AI');
+  });
+
+  test('500 when the model returns invalid JSON', async (t) => {
+    const loggedError = captureLoggedError(t);
+    const { status, body } = await callHandler(handler, {
+      body: { question: 'Waar woon je?', answer: 'Replay: invalid JSON' },
+    });
+    assert.equal(status, 500);
+    assert.equal(body.error, 'Failed to validate answer');
+    assert.ok(loggedError() instanceof SyntaxError);
+  });
+});
@@ -0,0 +1,97 @@
+import { TestContext, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createRecordingProvider, createReplayProvider } from '../../server/fixture-provider';
+import { LLMProvider, parseJsonResponse } from '../../server/llm';
+
+const schema = z.object({ word: z.string() });
+const request = { model: 'test-model', prompt: 'Name a Dutch word', schema };
+
+// Answers with fixed texts, its stream fails after the chunks. Counts the JSON calls
+function createFakeProvider(jsonText: string, chunks: string[] = []) {
+  const calls = { json: 0 };
+  async function generateJsonText(): Promise<string> {
+    calls.json++;
+    return jsonText;
+  }
+
+  const provider: LLMProvider = {
+    name: 'fake',
+    async generateText() {
+      return chunks.join('');
+    },
+    async *streamText() {
+      yield* chunks;
+      throw new Error('Connection reset');
+    },
+    async generateJson(request) {
+      return parseJsonResponse(request.schema, await generateJsonText());
+    },
+    generateJsonText,
+  };
+  return { provider, calls };
+}
+
+async function createFixturesDir(t: TestContext): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'llm-fixtures-'));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+async function readFixtures(dir: string) {
+  const files = await readdir(dir);
+  return Promise.all(files.map(async file => JSON.parse(await readFile(join(dir, file), 'utf8'))));
+}
+
+describe('fixture provider', () => {
+  test('records the raw text of JSON responses, also when the schema rejects it', async (t) => {
+    const dir = await createFixturesDir(t);
+    const { provider } = createFakeProvider('{"word": 42}');
+
+    await assert.rejects(createRecordingProvider(provider, dir).generateJson(request), z.ZodError);
+
+    const [fixture] = await readFixtures(dir);
+    assert.equal(fixture.kind, 'json');
+    assert.equal(fixture.text, '{"word": 42}');
+    await assert.rejects(createReplayProvider(dir).generateJson(request), z.ZodError);
+  });
+
+  test('replays a recorded response without calling the provider again', async (t) => {
+    const dir = await createFixturesDir(t);
+    const { provider, calls } = createFakeProvider('{"word": "fiets"}');
+    const recording = createRecordingProvider(provider, dir);
+
+    assert.deepEqual(await recording.generateJson(request), { word: 'fiets' });
+    assert.deepEqual(await recording.generateJson(request), { word: 'fiets' });
+    assert.equal(calls.json, 1);
+    assert.deepEqual(await createReplayProvider(dir).generateJson(request), { word: 'fiets' });
+  });
+
+  test('replays the chunks of a failed stream before its error', async (t) => {
+    const dir = await createFixturesDir(t);
+    const { provider } = createFakeProvider('', ['Hallo ', 'daar']);
+
+    const received: string[] = [];
+    await assert.rejects(async () => {
+      for await (const chunk of createRecordingProvider(provider, dir).streamText(request)) {
+        received.push(chunk);
+      }
+    }, /Connection reset/);
+
+    const replayed: string[] = [];
+    await assert.rejects(async () => {
+      for await (const chunk of createReplayProvider(dir).streamText(request)) {
+        replayed.push(chunk);
+      }
+    }, /Connection reset/);
+    assert.deepEqual(replayed, received);
+  });
+
+  test('fails calls without a recording', async (t) => {
+    const dir = await createFixturesDir(t);
+    await assert.rejects(createReplayProvider(dir).generateText(request), /No LLM fixture/);
+  });
+});
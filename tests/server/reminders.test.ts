@@ -0,0 +1,41 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReminderUser, runReminders } from '../../server/reminders';
+import type { PushService } from '../../server/push-service';
+import type { ReminderSettings } from '../../src/types';
+
+const reminders: ReminderSettings = {
+  enabled: true,
+  time: '09:00',
+  timezone: 'Europe/Amsterdam',
+  dailyGoal: 3,
+  subscription: { endpoint: 'https://push.example.com/1', keys: { p256dh: 'key', auth: 'auth' } },
+};
+
+function createPushService() {
+  const sent: string[] = [];
+  const service: PushService = {
+    name: 'test',
+    async send(subscription) {
+      sent.push(subscription.endpoint);
+      return true;
+    },
+  };
+  return { service, sent };
+}
+
+describe('runReminders', () => {
+  test('skips a user with an invalid timezone and reminds the others', async (t) => {
+    t.mock.method(console, 'error', () => {});
+    const { service, sent } = createPushService();
+    const users: ReminderUser[] = [
+      { uid: 'broken', reminders: { ...reminders, timezone: 'Not/A_Zone' }, dailyQuestions: {} },
+      { uid: 'valid', reminders, dailyQuestions: {} },
+    ];
+
+    const results = await runReminders(users, service, new Date('2026-03-02T12:00:00Z'));
+
+    assert.deepEqual(results.map(r => [r.uid, r.status]), [['broken', 'skipped'], ['valid', 'sent']]);
+    assert.deepEqual(sent, [reminders.subscription!.endpoint]);
+  });
+});